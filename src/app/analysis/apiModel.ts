@@ -0,0 +1,131 @@
+export type Access = 'public' | 'protected' | 'private';
+export type FunctionKind = 'function' | 'method' | 'constructor' | 'destructor' | 'operator';
+
+export interface ApiParam {
+  type: string;
+  name?: string;
+  default?: string;      // default argument as written
+}
+
+export interface ApiFunction {
+  kind: FunctionKind;
+  name: string;
+  qualifiedName: string; // ns::Class::name
+  returnType: string;    // '' for constructors / destructors
+  params: ApiParam[];
+  access?: Access;       // members only
+  isConst?: boolean;
+  isStatic?: boolean;
+  isVirtual?: boolean;
+  isPure?: boolean;
+  isNoexcept?: boolean;
+  isDeleted?: boolean;
+  throws: string[];      // types of exceptions thrown in the body
+  file: string;
+  line: number;
+}
+
+export interface ApiField {
+  name: string;
+  type: string;
+  access: Access;
+  isStatic?: boolean;
+}
+
+export interface ApiClass {
+  kind: 'class' | 'struct';
+  name: string;
+  qualifiedName: string;
+  bases: string[];
+  methods: ApiFunction[];
+  fields: ApiField[];
+  isAbstract: boolean;
+  file: string;
+  line: number;
+}
+
+export interface ApiEnum {
+  name: string;
+  qualifiedName: string;
+  scoped: boolean;       // enum class
+  values: string[];
+}
+
+export interface ApiModel {
+  extractor: 'clang' | 'fallback';
+  files: string[];       // source under test and its paired header
+  namespaces: string[];
+  classes: ApiClass[];
+  functions: ApiFunction[];  // free functions
+  enums: ApiEnum[];
+}
+
+export function emptyModel(extractor: ApiModel['extractor'], files: string[]): ApiModel {
+  return { extractor, files, namespaces: [], classes: [], functions: [], enums: [] };
+}
+
+/**
+ * Merge declarations and out-of-line definitions of the same entity:
+ * members defined in the .cpp land in their class, throws are unioned.
+ */
+export function mergeDefinitions(model: ApiModel): ApiModel {
+  const key = (f: ApiFunction) => `${f.qualifiedName}/${f.params.length}`;
+  const members = new Map<string, ApiFunction>();
+  for (const c of model.classes) for (const m of c.methods) members.set(key(m), m);
+
+  const free = new Map<string, ApiFunction>();
+  for (const f of model.functions) {
+    // `using namespace ns;` in the .cpp leaves the definition less qualified
+    const member = members.get(key(f))
+      ?? [...members.values()].find(m => m.qualifiedName.endsWith(`::${f.qualifiedName}`) && m.params.length === f.params.length);
+    const twin = member ?? free.get(key(f));
+    if (twin) {
+      twin.throws = [...new Set([...twin.throws, ...f.throws])];
+      twin.params.forEach((p, i) => { p.name ??= f.params[i]?.name; });
+      continue;
+    }
+    // Out-of-line definition of a member whose class we know
+    const owner = model.classes.find(c => f.qualifiedName === `${c.qualifiedName}::${f.name}`);
+    if (owner) {
+      owner.methods.push({ ...f, kind: f.kind === 'function' ? 'method' : f.kind, access: f.access ?? 'public' });
+      members.set(key(f), owner.methods[owner.methods.length - 1]);
+      continue;
+    }
+    free.set(key(f), f);
+  }
+  model.functions = [...free.values()];
+  for (const c of model.classes) c.isAbstract = c.methods.some(m => m.isPure);
+  model.namespaces = [...new Set(model.namespaces)];
+  return model;
+}
+
+function signature(f: ApiFunction, name = f.name): string {
+  const params = f.params
+    .map(p => [p.type, p.name].filter(Boolean).join(' ') + (p.default ? ` = ${p.default}` : ''))
+    .join(', ');
+  const prefix = [f.isStatic && 'static', f.isVirtual && 'virtual', f.returnType].filter(Boolean).join(' ');
+  const suffix = [f.isConst && 'const', f.isNoexcept && 'noexcept', f.isPure && '= 0', f.isDeleted && '= delete']
+    .filter(Boolean).join(' ');
+  const throws = f.throws.length ? `  // throws ${f.throws.join(', ')}` : '';
+  return `${prefix ? `${prefix} ` : ''}${name}(${params})${suffix ? ` ${suffix}` : ''}${throws}`;
+}
+
+/**
+ * Concise, prompt-friendly listing of the API.
+ */
+export function renderApiSummary(model: ApiModel): string {
+  const lines: string[] = [];
+  for (const c of model.classes) {
+    const bases = c.bases.length ? ` : ${c.bases.join(', ')}` : '';
+    lines.push(`${c.kind} ${c.qualifiedName}${bases}${c.isAbstract ? '  // abstract' : ''}`);
+    for (const m of c.methods) lines.push(`  ${(m.access ?? 'public').padEnd(9)} ${signature(m)}`);
+    for (const f of c.fields) {
+      lines.push(`  ${f.access.padEnd(9)} ${f.isStatic ? 'static ' : ''}${f.type} ${f.name}`);
+    }
+  }
+  for (const f of model.functions) lines.push(`function ${signature(f, f.qualifiedName)}`);
+  for (const e of model.enums) {
+    lines.push(`enum${e.scoped ? ' class' : ''} ${e.qualifiedName} { ${e.values.join(', ')} }`);
+  }
+  return lines.join('\n');
+}
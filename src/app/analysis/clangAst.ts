@@ -0,0 +1,302 @@
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { promises as fsp } from 'node:fs';
+import path from 'node:path';
+import { Access, ApiClass, ApiFunction, ApiModel, ApiParam, emptyModel } from './apiModel.js';
+
+/* Subset of clang's -ast-dump=json node shape that is read here */
+interface Loc {
+  offset?: number;
+  file?: string;
+  line?: number;
+  tokLen?: number;
+  spellingLoc?: Loc;
+  expansionLoc?: Loc;
+}
+
+interface AstNode {
+  id: string;
+  kind: string;
+  name?: string;
+  loc?: Loc;
+  range?: { begin?: Loc; end?: Loc };
+  isImplicit?: boolean;
+  type?: { qualType: string };
+  tagUsed?: 'class' | 'struct' | 'union';
+  completeDefinition?: boolean;
+  scopedEnumTag?: 'class' | 'struct';
+  bases?: { type: { qualType: string } }[];
+  access?: Access;
+  storageClass?: string;
+  virtual?: boolean;
+  pure?: boolean;
+  explicitlyDeleted?: boolean;
+  previousDecl?: string;
+  init?: string;
+  inner?: AstNode[];
+}
+
+interface Scope {
+  qual: string;
+  cls?: ApiClass;
+  access: Access;
+}
+
+/* Dumps of headers like <regex> run into the hundreds of MB */
+const MAX_DUMP_BYTES = 100 * 1024 * 1024;
+
+/* Flags clang understands whatever compiler the project builds with */
+const PORTABLE_FLAG = /^-(?:I|isystem|iquote|idirafter|include|D|U|std=)/;
+
+/**
+ * Keep the include path, macros and language standard from the
+ * project's flags; GCC-only options would make clang bail out.
+ */
+export function clangFlags(flags: string[]): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < flags.length; i++) {
+    const f = flags[i];
+    if (!PORTABLE_FLAG.test(f)) continue;
+    out.push(f);
+    if (/^-(?:I|isystem|iquote|idirafter|include|D|U)$/.test(f) && i + 1 < flags.length) out.push(flags[++i]);
+  }
+  return out;
+}
+
+/**
+ * Run `clang++ -Xclang -ast-dump=json -fsyntax-only` on one file.
+ * @returns The translation unit, or undefined if the dump is too large
+ * @throws If clang++ cannot be started
+ */
+async function dumpAst(clang: string, file: string, flags: string[], cwd: string, signal: AbortSignal): Promise<AstNode | undefined> {
+  const child = spawn(clang, ['-x', 'c++', '-fsyntax-only', '-Xclang', '-ast-dump=json', ...clangFlags(flags), file], {
+    cwd,
+    signal,
+    stdio: ['ignore', 'pipe', 'ignore']
+  });
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let truncated = false;
+  child.stdout.on('data', (data: Buffer) => {
+    size += data.length;
+    if (size > MAX_DUMP_BYTES) {
+      truncated = true;
+      child.kill();
+      return;
+    }
+    chunks.push(data);
+  });
+
+  await once(child, 'exit');
+  // Syntax errors still produce a dump; only a missing or oversized one is fatal
+  if (truncated || !size) return undefined;
+  return JSON.parse(Buffer.concat(chunks).toString('utf8')) as AstNode;
+}
+
+const QUALIFIERS = /(?:\s*(?:const|volatile|&&?|noexcept(?:\([^()]*\))?|throw\(\)))*\s*$/;
+
+/**
+ * Split a function type such as `const std::string &(int, char) const noexcept`
+ * into its return type and the qualifiers after the parameter list.
+ */
+function splitFunctionType(qualType: string): { returnType: string; qualifiers: string } {
+  const quals = qualType.match(QUALIFIERS)!;
+  const head = qualType.slice(0, quals.index);
+  let depth = 0;
+  for (let i = head.length - 1; i >= 0; i--) {
+    if (head[i] === ')') depth++;
+    else if (head[i] === '(' && --depth === 0) return { returnType: head.slice(0, i).trim(), qualifiers: quals[0] };
+  }
+  return { returnType: head.trim(), qualifiers: quals[0] };
+}
+
+function throwsIn(node: AstNode | undefined, out = new Set<string>()): Set<string> {
+  if (!node) return out;
+  if (node.kind === 'CXXThrowExpr' && node.inner?.[0]?.type) {
+    out.add(node.inner[0].type.qualType.replace(/^const\s+/, ''));
+  }
+  for (const child of node.inner ?? []) throwsIn(child, out);
+  return out;
+}
+
+/**
+ * Build the API model of `file` from clang's JSON AST. Only declarations
+ * spelled in `file` itself are kept; included headers are walked to
+ * resolve out-of-line definitions but not reported. Relative paths in
+ * `flags` are taken from `cwd`.
+ * @throws If clang++ cannot be started
+ */
+export async function parseApiClang(
+  file: string,
+  flags: string[],
+  cwd: string,
+  signal: AbortSignal,
+  clang = 'clang++'
+): Promise<ApiModel | undefined> {
+  const main = path.resolve(file);
+  const tu = await dumpAst(clang, main, flags, cwd, signal);
+  if (!tu) return undefined;
+
+  const src = await fsp.readFile(main, 'utf8');
+  const model = emptyModel('clang', [main]);
+  const qualified = new Map<string, string>();   // decl id → ns::Class::name
+
+  // clang only writes `file`/`line` when they change from the previous location printed
+  let curFile = '';
+  let curLine = 0;
+  const track = (loc?: Loc) => {
+    const l = loc?.expansionLoc ?? loc;
+    if (l?.spellingLoc && !loc?.expansionLoc) track(l.spellingLoc);
+    if (l?.file) curFile = path.resolve(path.dirname(main), l.file);
+    if (l?.line) curLine = l.line;
+  };
+  const visitLocs = (node: AstNode): { inMain: boolean; line: number } => {
+    track(node.loc);
+    const at = { inMain: curFile === main, line: curLine };
+    track(node.range?.begin);
+    track(node.range?.end);
+    return at;
+  };
+  // Expressions below a declaration still move the "previous location"
+  const skip = (node: AstNode) => {
+    visitLocs(node);
+    for (const child of node.inner ?? []) skip(child);
+  };
+  const textOf = (node: AstNode): string | undefined => {
+    const begin = node.range?.begin?.expansionLoc ?? node.range?.begin;
+    const end = node.range?.end?.expansionLoc ?? node.range?.end;
+    if (begin?.offset === undefined || end?.offset === undefined) return undefined;
+    return src.slice(begin.offset, end.offset + (end.tokLen ?? 0)).trim();
+  };
+
+  const addFunction = (node: AstNode, scope: Scope, at: { inMain: boolean; line: number }) => {
+    const params: ApiParam[] = [];
+    let body: AstNode | undefined;
+    for (const child of node.inner ?? []) {
+      if (child.kind === 'ParmVarDecl') {
+        visitLocs(child);
+        const init = child.init && child.inner?.[0];
+        params.push({
+          type: child.type?.qualType ?? '',
+          name: child.name,
+          default: init && at.inMain ? textOf(init) : undefined,
+        });
+        for (const c of child.inner ?? []) skip(c);
+      } else {
+        if (child.kind === 'CompoundStmt' || child.kind === 'CXXTryStmt') body = child;
+        skip(child);
+      }
+    }
+    if (!node.name) return;
+    const previous = node.previousDecl && qualified.get(node.previousDecl);
+    const qualifiedName = previous || scope.qual + node.name;
+    qualified.set(node.id, qualifiedName);
+    if (!at.inMain || node.isImplicit) return;
+
+    const { returnType, qualifiers } = splitFunctionType(node.type?.qualType ?? '');
+    const kind: ApiFunction['kind'] =
+      node.kind === 'CXXConstructorDecl' ? 'constructor'
+      : node.kind === 'CXXDestructorDecl' ? 'destructor'
+      : node.name.startsWith('operator') ? 'operator'
+      : node.kind === 'CXXMethodDecl' || scope.cls ? 'method' : 'function';
+    const fn: ApiFunction = {
+      kind,
+      name: node.name,
+      qualifiedName,
+      returnType: kind === 'constructor' || kind === 'destructor' ? '' : returnType,
+      params,
+      access: scope.cls ? node.access ?? scope.access : undefined,
+      isConst: /\bconst\b/.test(qualifiers) || undefined,
+      isStatic: node.storageClass === 'static' || undefined,
+      isVirtual: node.virtual || undefined,
+      isPure: node.pure || undefined,
+      isNoexcept: /\bnoexcept\b(?!\(false\))/.test(qualifiers) || undefined,
+      isDeleted: node.explicitlyDeleted || undefined,
+      throws: [...throwsIn(body)],
+      file: main,
+      line: at.line,
+    };
+    if (scope.cls && !previous) scope.cls.methods.push(fn);
+    else model.functions.push(fn);
+  };
+
+  const walk = (nodes: AstNode[], scope: Scope) => {
+    for (const node of nodes) {
+      const at = visitLocs(node);
+      switch (node.kind) {
+        case 'NamespaceDecl': {
+          const qual = node.name ? `${scope.qual}${node.name}::` : scope.qual;
+          if (node.name && at.inMain) model.namespaces.push(qual.slice(0, -2));
+          walk(node.inner ?? [], { qual, access: 'public' });
+          break;
+        }
+        case 'LinkageSpecDecl':
+        case 'FunctionTemplateDecl':
+        case 'ClassTemplateDecl':
+          walk(node.inner ?? [], scope);
+          break;
+        case 'CXXRecordDecl': {
+          if (node.isImplicit || !node.name || node.tagUsed === 'union' || !node.completeDefinition) {
+            for (const child of node.inner ?? []) skip(child);
+            break;
+          }
+          const cls: ApiClass = {
+            kind: node.tagUsed === 'class' ? 'class' : 'struct',
+            name: node.name,
+            qualifiedName: scope.qual + node.name,
+            bases: (node.bases ?? []).map(b => b.type.qualType),
+            methods: [],
+            fields: [],
+            isAbstract: false,
+            file: main,
+            line: at.line,
+          };
+          qualified.set(node.id, cls.qualifiedName);
+          if (at.inMain && (!scope.cls || (node.access ?? scope.access) !== 'private')) model.classes.push(cls);
+          walk(node.inner ?? [], { qual: `${cls.qualifiedName}::`, cls, access: cls.kind === 'class' ? 'private' : 'public' });
+          break;
+        }
+        case 'AccessSpecDecl':
+          if (node.access) scope.access = node.access;
+          break;
+        case 'CXXMethodDecl':
+        case 'CXXConstructorDecl':
+        case 'CXXDestructorDecl':
+        case 'CXXConversionDecl':
+        case 'FunctionDecl':
+          addFunction(node, scope, at);
+          break;
+        case 'FieldDecl':
+        case 'VarDecl':
+          if (at.inMain && scope.cls && node.name && !node.isImplicit) {
+            scope.cls.fields.push({
+              name: node.name,
+              type: node.type?.qualType ?? '',
+              access: node.access ?? scope.access,
+              isStatic: node.kind === 'VarDecl' || undefined,
+            });
+          }
+          for (const child of node.inner ?? []) skip(child);
+          break;
+        case 'EnumDecl': {
+          const values: string[] = [];
+          for (const child of node.inner ?? []) {
+            visitLocs(child);
+            if (child.kind === 'EnumConstantDecl' && child.name) values.push(child.name);
+            for (const c of child.inner ?? []) skip(c);
+          }
+          if (at.inMain && node.name) {
+            model.enums.push({ name: node.name, qualifiedName: scope.qual + node.name, scoped: !!node.scopedEnumTag, values });
+          }
+          break;
+        }
+        default:
+          for (const child of node.inner ?? []) skip(child);
+      }
+    }
+  };
+
+  walk(tu.inner ?? [], { qual: '', access: 'public' });
+  return model;
+}
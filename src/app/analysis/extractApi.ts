@@ -0,0 +1,61 @@
+import { promises as fsp } from 'node:fs';
+import path from 'node:path';
+import chalk from 'chalk';
+import { getCorrespondingFile } from '../utils/includeHandler.js';
+import { isCppSourceFile } from '../utils/fileExtensions.js';
+import { ApiModel, emptyModel, mergeDefinitions } from './apiModel.js';
+import { parseApiClang } from './clangAst.js';
+import { parseApiFallback } from './fallbackParser.js';
+import { log } from '../utils/logger.js';
+
+export type Analyzer = 'auto' | 'clang' | 'fallback';
+
+export interface ExtractOpts {
+  analyzer?: Analyzer;     // auto: clang when installed, else the fallback parser
+  flags?: string[];        // compile flags of the source (include path, -D, -std=)
+  root?: string;           // directory relative -I paths in `flags` start from
+  clang?: string;          // clang++ executable
+  signal?: AbortSignal;
+}
+
+/**
+ * Extract the testable API of a source file and its paired header.
+ * @throws If `analyzer` is 'clang' and clang++ cannot be run
+ */
+export async function extractApi(srcFile: string, opts: ExtractOpts = {}): Promise<ApiModel> {
+  const analyzer = opts.analyzer ?? 'auto';
+  const paired = await getCorrespondingFile(srcFile, '');
+  const files = [path.resolve(srcFile), ...(paired ? [path.resolve(paired)] : [])];
+  // Declarations (with default arguments) first, definitions merged into them
+  const order = [...files].sort((a, b) => Number(isCppSourceFile(a)) - Number(isCppSourceFile(b)));
+
+  let parts: ApiModel[] | undefined;
+  if (analyzer !== 'fallback') {
+    try {
+      const timeout = AbortSignal.timeout(60_000);
+      const signal = opts.signal ? AbortSignal.any([opts.signal, timeout]) : timeout;
+      // One at a time: each dump holds the whole preprocessed translation unit
+      const models: (ApiModel | undefined)[] = [];
+      for (const f of order) models.push(await parseApiClang(f, opts.flags ?? [], opts.root ?? path.dirname(f), signal, opts.clang));
+      if (models.every((m): m is ApiModel => !!m)) parts = models;
+      else log.warn(chalk.yellow('⚠️  clang AST dump too large, using the fallback parser'));
+    } catch (err) {
+      if (analyzer === 'clang') throw new Error(`clang++ is required for --analyzer clang: ${(err as Error).message}`);
+      // stderr, so `analyze --json` output stays parseable
+      log.debug(chalk.gray('  ℹ️  clang++ not available, using the fallback parser'));
+    }
+  }
+  parts ??= await Promise.all(order.map(async f => parseApiFallback(await fsp.readFile(f, 'utf8'), f)));
+
+  const model = emptyModel(parts[0].extractor, files);
+  for (const part of parts) {
+    model.namespaces.push(...part.namespaces);
+    model.classes.push(...part.classes);
+    model.functions.push(...part.functions);
+    model.enums.push(...part.enums);
+  }
+  mergeDefinitions(model);
+  // Internal-linkage helpers of the .cpp cannot be called from a test
+  model.functions = model.functions.filter(f => !(f.isStatic && isCppSourceFile(f.file)));
+  return model;
+}
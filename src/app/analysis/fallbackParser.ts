@@ -0,0 +1,282 @@
+import { maskCode } from '../utils/testBlocks.js';
+import { Access, ApiClass, ApiFunction, ApiModel, ApiParam, emptyModel } from './apiModel.js';
+
+interface Scope {
+  qual: string;          // "ns::Class::" prefix for names declared here
+  cls?: ApiClass;
+  access: Access;
+}
+
+const SPECIFIERS = /\b(?:virtual|static|inline|explicit|constexpr|consteval|extern|friend|mutable|thread_local)\b|\[\[[^\]]*\]\]/g;
+const TYPE_WORDS = new Set([
+  'const', 'volatile', 'unsigned', 'signed', 'short', 'long', 'int', 'char', 'bool',
+  'float', 'double', 'void', 'auto', 'wchar_t', 'char8_t', 'char16_t', 'char32_t', 'struct', 'class', 'enum',
+]);
+
+/**
+ * Blank out comments, literals and preprocessor lines (with their
+ * continuations) so only declarations remain, offsets unchanged.
+ */
+function prepare(src: string): string {
+  return maskCode(src).replace(/^[ \t]*#(?:[^\n]*\\\n)*[^\n]*/gm, m => m.replace(/[^\n]/g, ' '));
+}
+
+/**
+ * Index of the bracket closing the one at `open`, honouring nesting.
+ */
+function matching(code: string, open: number): number {
+  const pairs: Record<string, string> = { '(': ')', '{': '}', '[': ']' };
+  const stack: string[] = [];
+  for (let i = open; i < code.length; i++) {
+    const c = code[i];
+    if (pairs[c]) stack.push(pairs[c]);
+    else if (c === stack[stack.length - 1]) {
+      stack.pop();
+      if (!stack.length) return i;
+    }
+  }
+  return code.length - 1;
+}
+
+/**
+ * Split on commas outside (), <>, {} and [].
+ */
+function splitTopLevel(text: string, sep = ','): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let cur = '';
+  for (const c of text) {
+    if ('(<{['.includes(c)) depth++;
+    else if (')>}]'.includes(c)) depth--;
+    if (c === sep && depth === 0) {
+      out.push(cur);
+      cur = '';
+    } else {
+      cur += c;
+    }
+  }
+  if (cur.trim()) out.push(cur);
+  return out;
+}
+
+function squash(s: string): string {
+  return s.replace(/\s+/g, ' ').replace(/\s*([<>,*&:])\s*/g, '$1').replace(/,/g, ', ').trim();
+}
+
+/**
+ * Length of a leading `template <...>` clause (0 if none).
+ */
+function templatePrefix(head: string): number {
+  const m = head.match(/^template\s*</);
+  if (!m) return 0;
+  let depth = 0;
+  for (let i = m[0].length - 1; i < head.length; i++) {
+    if (head[i] === '<') depth++;
+    else if (head[i] === '>' && --depth === 0) return i + 1;
+  }
+  return head.length;
+}
+
+function parseParam(text: string, src: string): ApiParam | undefined {
+  if (!text.trim() || text.trim() === 'void') return undefined;
+  const [decl, ...rest] = splitTopLevel(text, '=');
+  const def = rest.length ? src.slice(decl.length + 1).trim() : undefined;
+  const m = decl.trim().match(/^(.*?[\s*&>])([A-Za-z_]\w*)\s*(\[[^\]]*\])?$/);
+  if (m && !TYPE_WORDS.has(m[2]) && /\S/.test(m[1]) && !/::\s*$/.test(m[1])) {
+    return { type: squash(m[1] + (m[3] ?? '')), name: m[2], default: def };
+  }
+  return { type: squash(decl), default: def };
+}
+
+/**
+ * Tolerant declaration scanner used when clang is not available. It
+ * understands namespaces, classes/structs with access sections, enums,
+ * free functions, methods (in-class and out-of-line) and fields; anything
+ * else is skipped rather than rejected.
+ */
+export function parseApiFallback(src: string, file: string): ApiModel {
+  const code = prepare(src);
+  const model = emptyModel('fallback', [file]);
+  const lineStarts = [0];
+  for (let i = 0; i < src.length; i++) if (src[i] === '\n') lineStarts.push(i + 1);
+  const lineAt = (offset: number) => {
+    let lo = 0, hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid; else hi = mid - 1;
+    }
+    return lo + 1;
+  };
+
+  const addFunction = (head: string, headStart: number, scope: Scope, body?: string) => {
+    const call = head.match(/\boperator\s*\(\s*\)\s*\(/);
+    const open = call ? call.index! + call[0].length - 1 : head.search(/\(/);
+    const close = open >= 0 ? matching(head, open) : -1;
+    if (open < 0 || close < 0) return;
+
+    const before = head.slice(0, open);
+    const after = head.slice(close + 1);
+    // `std::function<void(int)> cb;` is a field, not a function named void
+    if (!/\boperator\b/.test(before) && (before.match(/</g) ?? []).length > (before.match(/>/g) ?? []).length) {
+      addField(head, scope);
+      return;
+    }
+    const nm = before.match(/(~?[A-Za-z_][\w:]*?(?:::~?[A-Za-z_]\w*)*|(?:[\w:]*::)?operator\s*(?:\(\)|[^\s(]+))\s*$/);
+    if (!nm) return;
+    const rawName = nm[1].replace(/\s+/g, '');
+    const prefix = before.slice(0, nm.index);
+    const returnType = squash(prefix.replace(SPECIFIERS, ' '));
+    const parts = rawName.split('::');
+    const name = parts[parts.length - 1];
+    const owner = parts.length > 1 ? parts[parts.length - 2] : scope.cls?.name;
+
+    let kind: ApiFunction['kind'];
+    if (name.startsWith('~')) kind = 'destructor';
+    else if (name === owner && (parts.length > 1 || scope.cls)) kind = 'constructor';
+    else if (name.startsWith('operator')) kind = 'operator';
+    else kind = scope.cls ? 'method' : 'function';
+    if (!returnType && kind !== 'constructor' && kind !== 'destructor' && !/operator\s+\w/.test(rawName)) return;   // a macro call
+
+    const srcParams = src.slice(headStart + open + 1, headStart + close);
+    const params = splitTopLevel(head.slice(open + 1, close))
+      .map((p, i, all) => parseParam(p, splitTopLevelAt(srcParams, all, i)))
+      .filter((p): p is ApiParam => !!p);
+
+    const arrow = after.match(/->\s*([^{;=]+)/);
+    const fn: ApiFunction = {
+      kind,
+      name,
+      qualifiedName: scope.qual + rawName,
+      returnType: returnType === 'auto' && arrow ? squash(arrow[1]) : returnType,
+      params,
+      access: scope.cls ? scope.access : undefined,
+      isConst: /^\s*const\b/.test(after) || undefined,
+      isStatic: /\bstatic\b/.test(prefix) || undefined,
+      isVirtual: /\bvirtual\b/.test(prefix) || /\boverride\b/.test(after) || undefined,
+      isPure: /=\s*0\s*$/.test(after) || undefined,
+      isNoexcept: /\bnoexcept\b(?!\s*\(\s*false)/.test(after) || undefined,
+      isDeleted: /=\s*delete\b/.test(after) || undefined,
+      throws: body ? [...new Set([...body.matchAll(/\bthrow\s+([A-Za-z_][\w:]*(?:<[^;()]*>)?)\s*[({]/g)].map(m => m[1]))] : [],
+      file,
+      line: lineAt(headStart + (nm.index ?? 0)),
+    };
+    if (scope.cls && parts.length === 1) scope.cls.methods.push(fn);
+    else model.functions.push(fn);
+  };
+
+  function addField(head: string, scope: Scope) {
+    if (!scope.cls || /^\s*(?:using|typedef|friend|static_assert|enum|class|struct|union|template)\b/.test(head)) return;
+    const decl = splitTopLevel(head, '=')[0].replace(/\{.*$/, '').replace(/:\s*\d+\s*$/, '');
+    const m = decl.match(/^(.*?[\s*&>])([A-Za-z_]\w*)\s*(\[[^\]]*\])?\s*$/);
+    if (!m || !/\S/.test(m[1])) return;
+    scope.cls.fields.push({
+      name: m[2],
+      type: squash(m[1].replace(SPECIFIERS, ' ') + (m[3] ?? '')),
+      access: scope.access,
+      isStatic: /\bstatic\b/.test(m[1]) || undefined,
+    });
+  }
+
+  const parseScope = (from: number, to: number, scope: Scope) => {
+    let i = from;
+    while (i < to) {
+      // Collect a head up to ; { or } outside parentheses
+      let j = i;
+      let depth = 0;
+      while (j < to && !(depth === 0 && /[;{}]/.test(code[j]))) {
+        if (code[j] === '(' || code[j] === '[') depth++;
+        else if (code[j] === ')' || code[j] === ']') depth--;
+        j++;
+      }
+      let head = code.slice(i, j);
+      let headStart = i;
+
+      // Leading access labels
+      let label: RegExpMatchArray | null;
+      while ((label = head.match(/^\s*(public|protected|private)\s*:(?!:)/))) {
+        scope.access = label[1] as Access;
+        head = head.slice(label[0].length);
+        headStart += label[0].length;
+      }
+      const lead = head.length - head.trimStart().length;
+      head = head.trim();
+      headStart += lead;
+      const tpl = templatePrefix(head);
+      if (tpl) {
+        const rest = head.slice(tpl);
+        headStart += tpl + rest.length - rest.trimStart().length;
+        head = rest.trim();
+      }
+
+      if (j >= to || code[j] === '}') {
+        if (head && scope.cls) addField(head, scope);
+        return;
+      }
+
+      if (code[j] === ';') {
+        if (head && !/^(?:using|typedef|friend|static_assert|return)\b/.test(head)) {
+          if (isFunctionHead(head)) addFunction(head, headStart, scope);
+          else addField(head, scope);
+        }
+        i = j + 1;
+        continue;
+      }
+
+      // code[j] === '{'
+      const end = matching(code, j);
+      const ns = head.match(/^(?:inline\s+)?namespace\b\s*([\w:]*)/);
+      const rec = head.match(/^(class|struct|union)\s+(?:\[\[[^\]]*\]\]\s*)?(?:alignas\s*\([^)]*\)\s*)?(?:[A-Z][A-Z0-9_]*\s+)?([A-Za-z_]\w*)\s*(?:final\s*)?(?::\s*([^{]*))?$/);
+      const en = head.match(/^enum\s*(class|struct)?\s*([A-Za-z_]\w*)?/);
+
+      if (ns) {
+        if (ns[1]) model.namespaces.push(scope.qual + ns[1]);
+        parseScope(j + 1, end, { qual: ns[1] ? `${scope.qual}${ns[1]}::` : scope.qual, access: 'public' });
+      } else if (/^extern\b/.test(head)) {
+        parseScope(j + 1, end, scope);
+      } else if (rec && rec[1] !== 'union') {
+        const cls: ApiClass = {
+          kind: rec[1] as 'class' | 'struct',
+          name: rec[2],
+          qualifiedName: scope.qual + rec[2],
+          bases: rec[3] ? splitTopLevel(rec[3]).map(b => squash(b.replace(/\b(?:public|protected|private|virtual)\b/g, ''))) : [],
+          methods: [],
+          fields: [],
+          isAbstract: false,
+          file,
+          line: lineAt(headStart),
+        };
+        if (!scope.cls || scope.access !== 'private') model.classes.push(cls);
+        parseScope(j + 1, end, { qual: `${cls.qualifiedName}::`, cls, access: cls.kind === 'class' ? 'private' : 'public' });
+      } else if (en && en[2]) {
+        model.enums.push({
+          name: en[2],
+          qualifiedName: scope.qual + en[2],
+          scoped: !!en[1],
+          values: splitTopLevel(code.slice(j + 1, end)).map(v => v.trim().match(/^[A-Za-z_]\w*/)?.[0]).filter((v): v is string => !!v),
+        });
+      } else if (isFunctionHead(head) && !/^(?:if|for|while|switch|catch|do)\b/.test(head)) {
+        // Function definition; a constructor's initializer list is part of the head
+        const sig = head.replace(/\)\s*:[^:][\s\S]*$/, ')');
+        addFunction(sig, headStart, scope, code.slice(j, end + 1));
+      }
+      i = end + 1;
+    }
+  };
+
+  parseScope(0, code.length, { qual: '', access: 'public' });
+  return model;
+}
+
+/* `int f(int)` but not `int x = g(1)`; `operator==` is not an initializer */
+function isFunctionHead(head: string): boolean {
+  return /\(/.test(head) && !/^[^(]*=/.test(head.replace(/\boperator\s*[^\w\s(]+/, 'operator'));
+}
+
+/**
+ * The original (unmasked) text of parameter `index`, so default
+ * arguments keep their string literals.
+ */
+function splitTopLevelAt(srcParams: string, masked: string[], index: number): string {
+  const offset = masked.slice(0, index).reduce((n, p) => n + p.length + 1, 0);
+  return srcParams.slice(offset, offset + masked[index].length);
+}
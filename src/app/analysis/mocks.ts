@@ -0,0 +1,215 @@
+import { promises as fsp } from 'node:fs';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { ApiClass, ApiFunction, ApiModel, mergeDefinitions } from './apiModel.js';
+import { parseApiFallback } from './fallbackParser.js';
+import { projectSymbolIndex } from '../utils/symbolIncludes.js';
+import { findClassDefinitions, maskCode } from '../utils/testBlocks.js';
+import { generateIncludeStatement } from '../utils/includeHandler.js';
+import { MockContext } from '../prompt/middleware.js';
+import { Transaction, writeThrough } from '../utils/transaction.js';
+
+/* A GoogleMock class to generate for one dependency of the code under test */
+export interface MockSpec {
+  name: string;            // MockLogger
+  base: ApiClass;          // the interface it derives from
+  methods: ApiFunction[];  // virtual methods to mock, inherited ones included
+  header: string;          // header declaring the interface
+}
+
+const SMART_PTR_RX = /\b(?:unique_ptr|shared_ptr|weak_ptr|not_null)\s*<\s*(?:const\s+)?((?:\w+::)*\w+)/g;
+const INDIRECT_RX = /((?:\w+::)*\w+)\s*(?:const\s*)?[*&]/g;
+const QUOTED_INCLUDE_RX = /^\s*#\s*include\s+"([^"]+)"/gm;
+const MAX_INCLUDED = 64;
+const NOT_CLASSES = new Set(['void', 'bool', 'char', 'short', 'int', 'long', 'float', 'double', 'unsigned', 'signed', 'auto', 'const', 'volatile']);
+
+/**
+ * Class names a type refers to through a pointer, a reference or a smart
+ * pointer: `const Logger&`, `Clock*`, `std::unique_ptr<io::Sink>`.
+ */
+export function referencedTypes(type: string): string[] {
+  const names = [...type.matchAll(SMART_PTR_RX), ...type.matchAll(INDIRECT_RX)].map(m => m[1]);
+  return [...new Set(names)].filter(n => !n.startsWith('std::') && !NOT_CLASSES.has(n));
+}
+
+function lastName(qualified: string): string {
+  return qualified.split('::').pop()!;
+}
+
+/**
+ * Types the code under test takes by pointer or reference, in
+ * constructors, methods, fields or free functions (out-of-line member
+ * definitions land there when the header was not found).
+ */
+function dependencyNames(model: ApiModel): string[] {
+  const own = new Set([...model.classes.map(c => c.name), ...model.functions.filter(f => f.kind === 'constructor').map(f => f.name)]);
+  const types = [
+    ...model.classes.flatMap(c => [...c.methods.flatMap(m => m.params.map(p => p.type)), ...c.fields.map(f => f.type)]),
+    ...model.functions.flatMap(f => f.params.map(p => p.type)),
+  ];
+  return [...new Set(types.flatMap(referencedTypes))].filter(n => !own.has(lastName(n)));
+}
+
+/* Classes of a header, parsed once per file */
+async function headerClasses(file: string, cache: Map<string, ApiClass[]>): Promise<ApiClass[]> {
+  let classes = cache.get(file);
+  if (!classes) {
+    const model = parseApiFallback(await fsp.readFile(file, 'utf8'), file);
+    classes = mergeDefinitions(model).classes;
+    cache.set(file, classes);
+  }
+  return classes;
+}
+
+/**
+ * Headers to look for a dependency in, nearest first: the files of the
+ * code under test, the headers they include, then any project header
+ * that declares the name.
+ */
+async function candidateHeaders(name: string, model: ApiModel, root: string, includeDirs: string[]): Promise<string[]> {
+  // Project headers reachable through `#include "..."`, breadth first
+  const included = [...model.files];
+  for (let i = 0; i < included.length && included.length < MAX_INCLUDED; i++) {
+    const src = await fsp.readFile(included[i], 'utf8');
+    for (const m of src.matchAll(QUOTED_INCLUDE_RX)) {
+      const found = [path.dirname(included[i]), ...includeDirs].map(d => path.resolve(d, m[1])).find(existsSync);
+      if (found && !included.includes(found)) included.push(found);
+    }
+  }
+  const indexed = (await projectSymbolIndex(root)).get(lastName(name)) ?? [];
+  return [...new Set([...included, ...indexed])];
+}
+
+function findClass(classes: ApiClass[], name: string): ApiClass | undefined {
+  return classes.find(c => c.qualifiedName === name)
+      ?? classes.find(c => c.qualifiedName.endsWith(`::${name}`) || c.name === lastName(name));
+}
+
+/**
+ * Virtual methods of `cls` and of the bases found next to it; an
+ * override in the derived class hides the base's declaration.
+ */
+async function virtualMethods(
+  cls: ApiClass,
+  header: string,
+  cache: Map<string, ApiClass[]>,
+  seen = new Set<string>()
+): Promise<ApiFunction[]> {
+  seen.add(cls.qualifiedName);
+  const own = cls.methods.filter(m => m.isVirtual && !m.isStatic && !m.isDeleted && (m.kind === 'method' || m.kind === 'function'));
+  const inherited: ApiFunction[] = [];
+  for (const base of cls.bases) {
+    const parent = findClass(await headerClasses(header, cache), base);
+    if (parent && !seen.has(parent.qualifiedName)) inherited.push(...await virtualMethods(parent, header, cache, seen));
+  }
+  const key = (m: ApiFunction) => `${m.name}(${m.params.map(p => p.type).join(',')})${m.isConst ? ' const' : ''}`;
+  const ownKeys = new Set(own.map(key));
+  return [...inherited.filter(m => !ownKeys.has(key(m))), ...own];
+}
+
+/**
+ * Find the dependencies of the code under test that can be mocked: class
+ * types taken by pointer or reference that declare virtual methods.
+ * @param includeDirs The project's include search path, to follow `#include "..."`
+ */
+export async function findMockSpecs(model: ApiModel, root: string, includeDirs: string[] = []): Promise<MockSpec[]> {
+  const cache = new Map<string, ApiClass[]>();
+  const specs: MockSpec[] = [];
+  for (const name of dependencyNames(model)) {
+    for (const header of await candidateHeaders(name, model, root, includeDirs)) {
+      const cls = findClass(await headerClasses(header, cache), name);
+      if (!cls) continue;
+      const methods = await virtualMethods(cls, header, cache);
+      if (methods.length && !specs.some(s => s.base.qualifiedName === cls.qualifiedName)) {
+        specs.push({ name: `Mock${cls.name}`, base: cls, methods, header });
+      }
+      break;
+    }
+  }
+  return specs;
+}
+
+/* MOCK_METHOD arguments need parentheses around types with unprotected commas */
+function protect(type: string): string {
+  let depth = 0;
+  for (const c of type) {
+    if (c === '<' || c === '(') depth++;
+    else if (c === '>' || c === ')') depth--;
+    else if (c === ',' && depth > 0) return `(${type})`;
+  }
+  return type;
+}
+
+/**
+ * Render the GoogleMock class of a spec.
+ */
+export function renderMock(spec: MockSpec): string {
+  const base = spec.base.qualifiedName;
+  const ctors = spec.base.methods.filter(m => m.kind === 'constructor' && !m.isDeleted);
+  const inherit = ctors.length && !ctors.some(c => c.params.every(p => p.default !== undefined))
+    ? `  using ${base}::${spec.base.name};\n`
+    : '';
+  const lines = spec.methods.map(m => {
+    const params = m.params.map(p => {
+      const type = protect(p.type);
+      return type !== p.type || !p.name ? type : `${p.type} ${p.name}`;
+    });
+    const quals = [m.isConst && 'const', m.isNoexcept && 'noexcept', 'override'].filter(Boolean).join(', ');
+    return `  MOCK_METHOD(${protect(m.returnType || 'void')}, ${m.name}, (${params.join(', ')}), (${quals}));`;
+  });
+  return `class ${spec.name} : public ${base} {\n public:\n${inherit}${lines.join('\n')}\n};`;
+}
+
+/**
+ * Add the mocks a shared mocks header does not define yet, with the
+ * includes of their interfaces. Mock classes already in the file are left
+ * as they are, so hand edits survive.
+ * @param write False to only find out which classes are missing
+ * @returns Names of the mock classes added
+ */
+export async function writeMocksHeader(
+  file: string,
+  specs: MockSpec[],
+  includeDirs: string[] = [],
+  write = true,
+  tx?: Transaction
+): Promise<string[]> {
+  const existing = existsSync(file) ? await fsp.readFile(file, 'utf8') : '';
+  let text = existing || [
+    '// GoogleMock classes for the dependencies of the code under test.',
+    '// Generated by gen-unit-test; classes already defined here are kept as they are.',
+    '#pragma once',
+    '',
+    '#include <gmock/gmock.h>',
+    '',
+  ].join('\n');
+
+  const defined = new Set(findClassDefinitions(text).map(c => c.name));
+  const added = specs.filter(s => !defined.has(s.name));
+  if (!added.length || !write) return added.map(s => s.name);
+
+  const includes = [...new Set(added.map(s => generateIncludeStatement(s.header, file, includeDirs)))]
+    .filter(inc => !text.includes(inc));
+  if (includes.length) {
+    const masked = maskCode(text);
+    const last = [...masked.matchAll(/^\s*#\s*include\b.*$/gm)].pop();
+    const at = last ? last.index! + last[0].length : text.length;
+    text = `${text.slice(0, at)}\n${includes.join('\n')}${text.slice(at)}`;
+  }
+  text = `${text.trimEnd()}\n\n${added.map(renderMock).join('\n\n')}\n`;
+
+  await fsp.mkdir(path.dirname(file), { recursive: true });
+  await writeThrough(tx, file, text);
+  return added.map(s => s.name);
+}
+
+/**
+ * What the prompt shows of the mocks: the header as the test file
+ * includes it, and each mock class.
+ */
+export function mockContext(specs: MockSpec[], header: string, testFile: string): MockContext {
+  return {
+    include: path.relative(path.dirname(testFile), header).split(path.sep).join('/'),
+    classes: specs.map(renderMock),
+  };
+}
@@ -0,0 +1,142 @@
+import path from 'node:path';
+import { existsSync, statSync } from 'node:fs';
+import fg from 'fast-glob';
+import chalk from 'chalk';
+import { run, Cfg } from './runner.js';
+import { findTestFile } from './utils/findTestFile.js';
+import { isCppSourceFile, isTestFile, replaceWithTestExtension } from './utils/fileExtensions.js';
+import { Transaction } from './utils/transaction.js';
+import { log } from './utils/logger.js';
+
+export type BatchCfg = Omit<Cfg, 'srcFile' | 'testFile'> & {
+  inputs: string[];       // files, directories or glob patterns
+  concurrency?: number;
+};
+
+export interface FileSummary {
+  srcFile: string;
+  testFile: string;
+  generated: number;
+  passed: number;
+  fixed: number;
+  failed: number;
+  skipped: number;        // already in the test file
+  rejected: number;       // rejected in --interactive review
+  error?: string;
+}
+
+const IGNORE = ['**/build/**', '**/cmake-build*/**', '**/node_modules/**', '**/.git/**'];
+
+/**
+ * Expand files, directories and globs into the list of C++ sources to test.
+ * Test files themselves (by the default names and `testNaming`) are skipped.
+ */
+export async function collectSources(inputs: string[], testNaming?: string): Promise<string[]> {
+  const found = new Set<string>();
+
+  for (const input of inputs) {
+    let hits: string[];
+    if (existsSync(input) && statSync(input).isDirectory()) {
+      hits = await fg('**/*', { cwd: input, absolute: true, ignore: IGNORE });
+    } else if (existsSync(input)) {
+      hits = [path.resolve(input)];
+    } else {
+      hits = await fg(input, { absolute: true, ignore: IGNORE });
+    }
+    for (const h of hits) {
+      if (isCppSourceFile(h) && !isTestFile(h, testNaming)) found.add(h);
+    }
+  }
+
+  return [...found].sort();
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight.
+ */
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T, i: number) => Promise<R>): Promise<R[]> {
+  const out: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return out;
+}
+
+/**
+ * Render per-file results plus totals as a plain text table.
+ */
+export function formatSummary(rows: FileSummary[], root: string): string {
+  const head = ['File', 'Generated', 'Passed', 'Fixed', 'Failed', 'Skipped', 'Rejected', 'Status'];
+  const body = rows.map(r => [
+    path.relative(root, r.srcFile),
+    String(r.generated),
+    String(r.passed),
+    String(r.fixed),
+    String(r.failed),
+    String(r.skipped),
+    String(r.rejected),
+    r.error ? `error: ${r.error.split('\n')[0]}` : r.failed ? 'partial' : r.generated ? 'ok' : 'no tests',
+  ]);
+  const total = (k: 'generated' | 'passed' | 'fixed' | 'failed' | 'skipped' | 'rejected') => String(rows.reduce((n, r) => n + r[k], 0));
+  const foot = [`TOTAL (${rows.length} files)`, total('generated'), total('passed'), total('fixed'), total('failed'),
+    total('skipped'), total('rejected'),
+    `${rows.filter(r => r.error).length} error(s)`];
+
+  const widths = head.map((_, c) => Math.max(...[head, ...body, foot].map(r => r[c].length)));
+  const fmt = (r: string[]) => r.map((cell, c) => cell.padEnd(widths[c])).join('  ').trimEnd();
+  const rule = widths.map(w => '─'.repeat(w)).join('  ');
+  return [fmt(head), rule, ...body.map(fmt), rule, fmt(foot)].join('\n');
+}
+
+/**
+ * Generate tests for every source matched by `cfg.inputs`, running the
+ * single-file pipeline with bounded concurrency. The whole batch is one
+ * transaction, so `undo` takes back every file it wrote; a source that
+ * fails has its own writes rolled back.
+ */
+export async function runAll(cfg: BatchCfg, signal: AbortSignal): Promise<FileSummary[]> {
+  if (!cfg.tx) return Transaction.run(cfg.root, 'run-all', signal, tx => runAll({ ...cfg, tx }, signal));
+  const { inputs, concurrency = 1, ...runCfg } = cfg;
+
+  log.info(chalk.blue('🔍 Collecting source files...'));
+  const sources = await collectSources(inputs, cfg.testNaming);
+  if (!sources.length) {
+    log.warn(chalk.yellow('⚠️  No C++ source files matched'));
+    return [];
+  }
+  log.info(chalk.green(`✅ Found ${sources.length} source file(s), concurrency ${concurrency}`));
+
+  const rows = await mapLimit(sources, concurrency, async (srcFile, i): Promise<FileSummary> => {
+    const testFile = await findTestFile(srcFile, cfg.root)
+                  ?? replaceWithTestExtension(srcFile, cfg.testNaming);
+    const row: FileSummary = { srcFile, testFile, generated: 0, passed: 0, fixed: 0, failed: 0, skipped: 0, rejected: 0 };
+    if (signal.aborted) return { ...row, error: 'aborted' };
+
+    log.info(chalk.blue(`\n📦 [${i + 1}/${sources.length}] ${path.relative(cfg.root, srcFile)}`));
+    // A source that fails leaves its files as they were
+    const tx = cfg.tx!.nested();
+    try {
+      const results = await run({ ...runCfg, srcFile, testFile, tx }, signal) ?? [];
+      row.generated = results.length;
+      row.passed = results.filter(r => r.verdict === 'pass').length;
+      row.fixed = results.filter(r => r.fixed).length;
+      row.failed = results.filter(r => r.verdict === 'fail').length;
+      row.skipped = results.filter(r => r.verdict === 'skipped').length;
+      row.rejected = results.filter(r => r.verdict === 'rejected').length;
+    } catch (error) {
+      row.error = error instanceof Error ? error.message : String(error);
+      log.error(chalk.red(`❌ ${path.relative(cfg.root, srcFile)}: ${row.error}`));
+      if (!signal.aborted) await tx.rollback();
+    }
+    return row;
+  });
+
+  log.info(chalk.blue('\n📋 Batch summary'));
+  log.info(formatSummary(rows, cfg.root));
+  return rows;
+}
@@ -1,24 +1,230 @@
-import { spawn } from 'node:child_process';
-import { once } from 'node:events';
-import { join } from 'node:path';
+import { basename, dirname, join, resolve } from 'node:path';
 import { tmpdir } from 'node:os';
 import chalk from 'chalk';
+import { readFileSync, existsSync, promises as fsp } from 'node:fs';
+import { compilerFlags, DEFAULT_CONFIG } from '../config/projectConfig.js';
+import {
+  Diagnostic,
+  parseDiagnostics,
+  dedupeDiagnostics,
+  attachTestBlocks,
+  renderDiagnostics
+} from './diagnostics.js';
+import { TestCaseResult, renderTestFailures } from './gtestResults.js';
+import { TestFramework, FrameworkSetting, resolveFramework, frameworkFlags } from './framework.js';
+import { exec } from './exec.js';
+import { flagsForSource, mergeFlags } from './compileDb.js';
+import { UnresolvedPolicy } from '../utils/systemHeaders.js';
+import { Transaction } from '../utils/transaction.js';
+import {
+  CodeModel,
+  ensureConfigured,
+  readCodeModel,
+  findTargetForFile,
+  registerTestFile,
+  linkGmock,
+  candidateScript,
+  CANDIDATE_TARGET
+} from './cmake.js';
+import { log } from '../utils/logger.js';
 
 export interface CompilationResult {
   success: boolean;
   errors?: string;
   output?: string;
+  diagnostics?: Diagnostic[];   // structured compiler/linker errors, when the build failed
+  tests?: TestCaseResult[];     // per-test results, when the test binary ran
 }
 
-export async function compileAndRun(cfg: {
+/**
+ * Parse raw build output and, when the test file is known, map each
+ * diagnostic to the TEST block it falls in.
+ */
+function collectDiagnostics(output: string, testFile?: string): Diagnostic[] {
+  const diags = dedupeDiagnostics(parseDiagnostics(output));
+  if (testFile && existsSync(testFile)) {
+    attachTestBlocks(diags, testFile, readFileSync(testFile, 'utf8'));
+  }
+  return diags;
+}
+
+/* Project-level build settings, usually taken from .cpptestgen.yaml */
+export interface BuildSettings {
+  compiler?: string;     // compiler executable for single-file mode
+  gppFlags?: string[];   // flags for single-file mode
+  testTarget?: string;   // ex: "ut_bin", used when the target cannot be discovered
+  buildDir?: string;     // CMake build directory, relative to root
+  cmakeRunner?: 'direct' | 'ctest';
+  registerTests?: boolean; // add unknown test files to CMakeLists.txt
+  compileCommands?: string; // compile_commands.json providing per-source flags
+  systemIncludeDirs?: string[]; // <...> search path; empty → ask the compiler
+  unresolvedIncludes?: UnresolvedPolicy;
+  gmock?: boolean;       // link GoogleMock into registered test targets
+  framework?: FrameworkSetting; // for test files that do not include one yet
+}
+
+/**
+ * Run a test binary with a machine-readable report (Google Test JSON,
+ * JUnit XML for Catch2 and doctest) and collect per-test results.
+ */
+async function runTestBinary(
+  bin: string,
+  cwd: string,
+  signal: AbortSignal,
+  framework: TestFramework,
+  gtestFilter?: string
+): Promise<CompilationResult> {
+  log.info(chalk.blue('🚀 Running test binary...'));
+  const reportPath = join(tmpdir(), `test_report_${Math.random().toString(36).slice(2)}${framework.reportExt}`);
+  const runArgs = framework.runArgs(reportPath, gtestFilter);
+  if (gtestFilter) {
+    log.debug(chalk.gray(`🎯 Test filter: ${gtestFilter}`));
+  }
+  const run = await exec(bin, runArgs, cwd, signal);
+  const tests = await framework.readReport(reportPath);
+  await fsp.rm(reportPath, { force: true });
+  if (tests) {
+    const failed = tests.filter(t => t.status === 'failed').length;
+    log.debug(chalk.gray(`📊 ${tests.length} test(s) run, ${failed} failed`));
+  }
+  if (run.code !== 0) {
+    log.warn(chalk.red('❌ Test binary failed'));
+    if (tests) log.info(chalk.gray(renderTestFailures(tests)));
+    return {
+      success: false,
+      errors: run.stderr || run.stdout || 'Test binary failed',
+      output: run.stdout,
+      tests
+    };
+  }
+  log.info(chalk.green('✅ Test binary ran successfully'));
+  return {
+    success: true,
+    output: run.stdout,
+    tests
+  };
+}
+
+/**
+ * The file CMake knows about for a candidate: replicas and fix
+ * candidates (foo_test.replica.cpp, foo_test.fix.cpp) are never part of
+ * the build, they are compiled in its place in the candidate build tree.
+ */
+export function registeredPathFor(file: string): string {
+  return file.replace(/(?:\.(?:replica|fix))+(\.[^.\/\\]+)$/, '$1');
+}
+
+/**
+ * Turn a gtest filter ("A.B:C.D") into an anchored ctest regex.
+ */
+function ctestRegex(filter: string): string {
+  const names = filter.split(':').map(n => n.replace(/[.+^$()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.'));
+  return `^(${names.join('|')})$`;
+}
+
+/**
+ * Anchored ctest regex naming the tests of `buildDir` that run `artifact`
+ * (and match `filter`), so the other targets' tests are left out.
+ * @returns The regex, '' when no test qualifies, undefined when ctest
+ *   cannot list the tests
+ */
+async function ctestSelection(
+  buildDir: string,
+  artifact: string,
+  filter: string | undefined,
+  cwd: string,
+  signal: AbortSignal
+): Promise<string | undefined> {
+  const listed = await exec('ctest', ['--test-dir', buildDir, '--show-only=json-v1'], cwd, signal);
+  if (listed.code !== 0) return undefined;
+  let tests: { name: string; command?: string[] }[];
+  try {
+    tests = JSON.parse(listed.stdout).tests ?? [];
+  } catch {
+    return undefined;
+  }
+  const only = filter ? new RegExp(ctestRegex(filter)) : undefined;
+  const names = tests
+    .filter(t => t.command?.[0] && resolve(buildDir, t.command[0]) === artifact && (!only || only.test(t.name)))
+    .map(t => t.name.replace(/[.*+?^$()|[\]\\{}]/g, '\\$&'));
+  return names.length ? `^(${names.join('|')})$` : '';
+}
+
+async function locateTarget(
+  cfg: BuildSettings & { root: string; srcFile?: string; tx?: Transaction },
+  buildDir: string,
+  registered: string | undefined,
+  framework: TestFramework,
+  signal: AbortSignal
+): Promise<{ model?: CodeModel; target?: string; artifact?: string; errors?: string }> {
+  let model: CodeModel;
+  try {
+    model = await readCodeModel(buildDir);
+  } catch (err: unknown) {
+    log.warn(chalk.yellow(`⚠️  CMake File API unavailable: ${err instanceof Error ? err.message : String(err)}`));
+    return {};
+  }
+  if (!registered) return { model };
+
+  let target = findTargetForFile(model, registered);
+  if (!target && cfg.registerTests) {
+    await registerTestFile(model, registered, cfg.srcFile && resolve(cfg.root, cfg.srcFile), cfg.gmock, framework, cfg.tx);
+    const reconfigured = await ensureConfigured(cfg.root, buildDir, signal, true);
+    if (reconfigured && reconfigured.code !== 0) {
+      return { model, errors: reconfigured.stderr || reconfigured.stdout || 'CMake configure failed' };
+    }
+    model = await readCodeModel(buildDir);
+    target = findTargetForFile(model, registered);
+  }
+  if (!target) {
+    log.warn(chalk.yellow(`⚠️  No CMake target compiles ${registered}`));
+    return { model };
+  }
+  // Tests using the generated mocks need GoogleMock in a target that may predate them
+  if (cfg.gmock && framework.kind === 'gtest' && await linkGmock(target, cfg.tx)) {
+    const reconfigured = await ensureConfigured(cfg.root, buildDir, signal, true);
+    if (reconfigured && reconfigured.code !== 0) {
+      return { model, errors: reconfigured.stderr || reconfigured.stdout || 'CMake configure failed' };
+    }
+  }
+  return { model, target: target.name, artifact: target.artifacts[0] };
+}
+
+/**
+ * Add `testFile` to the build (see registerTestFile) when `registerTests`
+ * is set and no target compiles it yet. Candidates are built outside the
+ * project, so this is done once tests have been written to the file.
+ */
+export async function ensureRegistered(
+  cfg: BuildSettings & { root: string; srcFile?: string; tx?: Transaction },
+  testFile: string,
+  signal: AbortSignal
+): Promise<void> {
+  const abs = resolve(cfg.root, testFile);
+  if (!cfg.registerTests || !existsSync(abs)) return;
+  const buildDir = resolve(cfg.root, cfg.buildDir || DEFAULT_CONFIG.buildDir);
+  const configured = await ensureConfigured(cfg.root, buildDir, signal);
+  const framework = resolveFramework(cfg.framework, await fsp.readFile(abs, 'utf8'));
+  const located = configured && configured.code !== 0
+    ? { errors: configured.stderr || configured.stdout || 'CMake configure failed' }
+    : await locateTarget(cfg, buildDir, abs, framework, signal);
+  if (located.errors) {
+    log.warn(chalk.yellow(`⚠️  Could not add ${testFile} to the build: ${located.errors}`));
+  }
+}
+
+export async function compileAndRun(cfg: BuildSettings & {
   root: string;
-  testTarget?: string;   // ex: "ut_bin"
   testFile?: string;     // path to a single test file
   srcFile?: string;      // path to corresponding source file
   mode?: 'cmake' | 'g++'; // build mode
-  gppFlags?: string[];   // extra flags for g++
+  gtestFilter?: string;  // run only matching tests, e.g. "Suite.Name"
+  tx?: Transaction;      // CMakeLists.txt edits registering the test file are rolled back with it
 }, signal: AbortSignal): Promise<CompilationResult> {
   const mode = cfg.mode || (cfg.testFile ? 'g++' : 'cmake');
+  const testPath = cfg.testFile && resolve(cfg.root, cfg.testFile);
+  const testText = testPath && existsSync(testPath) ? await fsp.readFile(testPath, 'utf8') : '';
+  const framework = resolveFramework(cfg.framework, testText);
   if (mode === 'g++' && cfg.testFile) {
     // --- Single file build/run with g++ ---
     const testFile = cfg.testFile;
@@ -27,113 +233,196 @@ export async function compileAndRun(cfg: {
     // or '/tmp/test_bin_...' on Linux/macOS.
     const outBin = join(tmpdir(), `test_bin_${Math.random().toString(36).slice(2)}`);
     
-    const gppFlags = cfg.gppFlags || ['-std=c++17', '-lgtest_main', '-lgtest', '-lpthread'];
-    console.log(chalk.blue('🔨 Compiling single test file with g++...'));
-    console.log(chalk.gray(`📄 Test file: ${testFile}`));
+    const compiler = cfg.compiler || DEFAULT_CONFIG.compiler;
+    let gppFlags = cfg.gppFlags || compilerFlags(DEFAULT_CONFIG);
+    if (cfg.compileCommands && cfg.srcFile) {
+      const project = await flagsForSource(cfg.compileCommands, resolve(cfg.root, cfg.srcFile));
+      if (project) {
+        log.debug(chalk.gray(`📚 Using flags of ${project.file} from ${cfg.compileCommands}`));
+        gppFlags = mergeFlags(project.flags, gppFlags);
+      }
+    }
+    gppFlags = frameworkFlags(gppFlags, framework, testText);
+    log.info(chalk.blue(`🔨 Compiling single test file with ${compiler}...`));
+    log.debug(chalk.gray(`📄 Test file: ${testFile}`));
     
     // Build compile arguments - include source file if provided
     const compileFiles = [testFile];
     if (cfg.srcFile) {
       compileFiles.push(cfg.srcFile);
-      console.log(chalk.gray(`📄 Source file: ${cfg.srcFile}`));
+      log.debug(chalk.gray(`📄 Source file: ${cfg.srcFile}`));
     }
     
-    console.log(chalk.gray(`⚙️  g++ flags: ${gppFlags.join(' ')}`));
+    log.debug(chalk.gray(`⚙️  ${compiler} flags: ${gppFlags.join(' ')}`));
     const compileArgs = ['-o', outBin, ...compileFiles, ...gppFlags];
-    console.log(chalk.gray(`🔧 Compile command: g++ ${compileArgs.join(' ')}`));
-    const compile = spawn('g++', compileArgs, {
-      cwd: cfg.root,
-      signal,
-      stdio: ['inherit', 'pipe', 'pipe']
-    });
-    let compileStdout = '';
-    let compileStderr = '';
-    compile.stdout?.on('data', (data) => {
-      compileStdout += data.toString();
-    });
-    compile.stderr?.on('data', (data) => {
-      compileStderr += data.toString();
-    });
-    const [compileCode] = await once(compile, 'exit');
-    if (compileCode !== 0) {
-      console.log(chalk.red('❌ g++ compilation failed'));
-      console.log(compileStdout ? chalk.gray(`Stdout: ${compileStdout}`) : '');
-      console.log(compileStderr ? chalk.gray(`Stderr: ${compileStderr}`) : '');
-      const errors = compileStderr || compileStdout || 'Unknown g++ compilation error';
+    log.debug(chalk.gray(`🔧 Compile command: ${compiler} ${compileArgs.join(' ')}`));
+    const compile = await exec(compiler, compileArgs, cfg.root, signal);
+    if (compile.code !== 0) {
+      log.warn(chalk.red('❌ g++ compilation failed'));
+      const errors = compile.stderr || compile.stdout || 'Unknown g++ compilation error';
+      const diagnostics = collectDiagnostics(errors, resolve(cfg.root, testFile));
+      if (diagnostics.length) {
+        log.info(chalk.gray(renderDiagnostics(diagnostics)));
+      } else {
+        log.info(compile.stdout ? chalk.gray(`Stdout: ${compile.stdout}`) : '');
+        log.info(compile.stderr ? chalk.gray(`Stderr: ${compile.stderr}`) : '');
+      }
       return {
         success: false,
-        errors
+        errors,
+        diagnostics
       };
     }
-    console.log(chalk.green('✅ g++ compilation successful'));
+    log.info(chalk.green('✅ g++ compilation successful'));
     // --- Run the binary ---
-    console.log(chalk.blue('🚀 Running test binary...'));
-    const run = spawn(outBin, [], {
-      cwd: cfg.root,
-      signal,
-      stdio: ['inherit', 'pipe', 'pipe']
-    });
-    let runStdout = '';
-    let runStderr = '';
-    run.stdout?.on('data', (data) => {
-      runStdout += data.toString();
-    });
-    run.stderr?.on('data', (data) => {
-      runStderr += data.toString();
-    });
-    const [runCode] = await once(run, 'exit');
-    if (runCode !== 0) {
-      console.log(chalk.red('❌ Test binary failed'));
-      return {
-        success: false,
-        errors: runStderr || runStdout || 'Test binary failed',
-        output: runStdout
-      };
+    try {
+      return await runTestBinary(outBin, cfg.root, signal, framework, cfg.gtestFilter);
+    } finally {
+      await fsp.rm(outBin, { force: true });
     }
-    console.log(chalk.green('✅ Test binary ran successfully'));
-    return {
-      success: true,
-      output: runStdout
-    };
   } else {
-    // --- CMake build (experimental) ---
-    console.log(chalk.blue('🔨 Starting compilation with error capture...'));
-    console.log(chalk.gray(`📁 Working directory: ${cfg.root}`));
-    console.log(chalk.gray(`🎯 Target: ${cfg.testTarget}`));
-
-    // Build with error capture
-    console.log(chalk.blue('⚙️  Running cmake build with error capture...'));
-    const make = spawn('cmake', ['--build', 'build', '--target', cfg.testTarget || 'ut_bin'], {
-      cwd: cfg.root,
-      signal,
-      stdio: ['inherit', 'pipe', 'pipe'] // Capture stdout and stderr
-    });
-
-    let stdout = '';
-    let stderr = '';
-
-    make.stdout?.on('data', (data) => {
-      stdout += data.toString();
-    });
-
-    make.stderr?.on('data', (data) => {
-      stderr += data.toString();
-    });
-
-    const [code] = await once(make, 'exit');
-
-    if (code !== 0) {
-      console.log(chalk.red('❌ Compilation failed'));
-      const errors = stderr || stdout || 'Unknown compilation error';
-      return {
-        success: false,
-        errors
-      };
+    // --- CMake build ---
+    const buildDir = resolve(cfg.root, cfg.buildDir || DEFAULT_CONFIG.buildDir);
+    log.info(chalk.blue('🔨 Building with CMake...'));
+    log.debug(chalk.gray(`📁 Source directory: ${cfg.root}`));
+    log.debug(chalk.gray(`📁 Build directory: ${buildDir}`));
+
+    const configured = await ensureConfigured(cfg.root, buildDir, signal);
+    if (configured && configured.code !== 0) {
+      log.error(chalk.red('❌ CMake configure failed'));
+      return { success: false, errors: configured.stderr || configured.stdout || 'CMake configure failed' };
+    }
+
+    const testFile = cfg.testFile && resolve(cfg.root, cfg.testFile);
+    const registered = testFile && registeredPathFor(testFile);
+    if (testFile && testFile !== registered) {
+      return oneCandidateAtATime(() => compileCandidate(cfg, buildDir, testFile, registered!, framework, signal));
+    }
+
+    const located = await locateTarget(cfg, buildDir, registered, framework, signal);
+    if (located.errors) {
+      log.error(chalk.red('❌ CMake configure failed'));
+      return { success: false, errors: located.errors };
     }
+    const target = located.target || cfg.testTarget || DEFAULT_CONFIG.cmakeTarget;
+    return buildAndRun(cfg, buildDir, target, located.artifact, registered, framework, signal);
+  }
+}
+
+/* Candidates share one build tree, script and target, so `run-all
+   --concurrency` workers build theirs one at a time */
+let candidateQueue: Promise<unknown> = Promise.resolve();
 
-    console.log(chalk.green('✅ Compilation successful'));
+function oneCandidateAtATime<T>(op: () => Promise<T>): Promise<T> {
+  const next = candidateQueue.then(op);
+  candidateQueue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Build a candidate (foo_test.replica.cpp, foo_test.fix.cpp ...) as
+ * CANDIDATE_TARGET in its own build tree, `<buildDir>-candidates`, where
+ * it is compiled in place of foo_test.cpp; the registered file and the
+ * project's CMakeLists.txt are left alone.
+ */
+async function compileCandidate(
+  cfg: BuildSettings & { root: string; srcFile?: string; gtestFilter?: string },
+  buildDir: string,
+  candidate: string,
+  registered: string,
+  framework: TestFramework,
+  signal: AbortSignal
+): Promise<CompilationResult> {
+  let model: CodeModel;
+  try {
+    model = await readCodeModel(buildDir);
+  } catch (err: unknown) {
+    log.warn(chalk.yellow(`⚠️  CMake File API unavailable: ${err instanceof Error ? err.message : String(err)}`));
+    model = { sourceDir: cfg.root, buildDir, targets: [] };
+  }
+
+  const candidates = `${buildDir}-candidates`;
+  const script = join(candidates, 'candidate.cmake');
+  const scratch = join(candidates, 'candidate', basename(registered));
+  const ctest = (cfg.cmakeRunner || DEFAULT_CONFIG.cmakeRunner) === 'ctest';
+  const text = candidateScript(model, registered, scratch, cfg.srcFile && resolve(cfg.root, cfg.srcFile), cfg.gmock, framework, ctest);
+  const changed = !existsSync(script) || await fsp.readFile(script, 'utf8') !== text;
+  await fsp.mkdir(dirname(scratch), { recursive: true });
+  if (changed) await fsp.writeFile(script, text, 'utf8');
+  await fsp.copyFile(candidate, scratch);
+  log.debug(chalk.gray(`🧪 Candidate ${candidate} built as ${CANDIDATE_TARGET} in ${candidates}`));
+
+  const configured = await ensureConfigured(cfg.root, candidates, signal, changed, [
+    `-DCMAKE_PROJECT_INCLUDE=${script}`,
+    '-DCMAKE_FIND_PACKAGE_TARGETS_GLOBAL=ON',
+  ]);
+  if (configured && configured.code !== 0) {
+    log.error(chalk.red('❌ CMake configure failed'));
+    return { success: false, errors: configured.stderr || configured.stdout || 'CMake configure failed' };
+  }
+  const artifact = (await readCodeModel(candidates)).targets.find(t => t.name === CANDIDATE_TARGET)?.artifacts[0];
+
+  // Report problems against the candidate, not the scratch copy
+  const result = await buildAndRun(cfg, candidates, CANDIDATE_TARGET, artifact, scratch, framework, signal);
+  if (result.errors) result.errors = result.errors.split(scratch).join(candidate);
+  for (const d of result.diagnostics ?? []) {
+    if (d.file === scratch) d.file = candidate;
+  }
+  return result;
+}
+
+/**
+ * Build `target` and run its tests, with ctest limited to the tests of
+ * `artifact`, or by running `artifact` directly.
+ * @param testFile File whose TEST blocks compile errors are mapped to
+ */
+async function buildAndRun(
+  cfg: BuildSettings & { root: string; gtestFilter?: string },
+  buildDir: string,
+  target: string,
+  artifact: string | undefined,
+  testFile: string | undefined,
+  framework: TestFramework,
+  signal: AbortSignal
+): Promise<CompilationResult> {
+  log.debug(chalk.gray(`🎯 Target: ${target}`));
+  const build = await exec('cmake', ['--build', buildDir, '--target', target], cfg.root, signal);
+  if (build.code !== 0) {
+    log.warn(chalk.red('❌ Compilation failed'));
+    const errors = build.stderr || build.stdout || 'Unknown compilation error';
+    const diagnostics = collectDiagnostics(errors, testFile);
+    if (diagnostics.length) log.info(chalk.gray(renderDiagnostics(diagnostics)));
     return {
-      success: true
+      success: false,
+      errors,
+      diagnostics
     };
   }
+  log.info(chalk.green('✅ Compilation successful'));
+
+  if ((cfg.cmakeRunner || DEFAULT_CONFIG.cmakeRunner) === 'ctest') {
+    log.info(chalk.blue('🚀 Running ctest...'));
+    const args = ['--test-dir', buildDir, '--output-on-failure', '--no-tests=error'];
+    const selection = artifact && await ctestSelection(buildDir, artifact, cfg.gtestFilter, cfg.root, signal);
+    if (selection !== undefined && !selection.length) {
+      log.warn(chalk.yellow(`⚠️  No ctest test runs ${artifact}`));
+      return { success: false, errors: `No ctest test runs ${artifact}${cfg.gtestFilter ? ` with filter ${cfg.gtestFilter}` : ''}` };
+    }
+    if (selection) args.push('-R', selection);
+    else if (cfg.gtestFilter) args.push('-R', ctestRegex(cfg.gtestFilter));
+    const run = await exec('ctest', args, cfg.root, signal);
+    if (run.code !== 0) {
+      log.warn(chalk.red('❌ ctest reported failures'));
+      return { success: false, errors: run.stdout || run.stderr || 'ctest failed', output: run.stdout };
+    }
+    log.info(chalk.green('✅ ctest passed'));
+    return { success: true, output: run.stdout };
+  }
+
+  if (!artifact) {
+    // Nothing ran, so nothing is verified
+    log.warn(chalk.red(`❌ Executable not found for target ${target}`));
+    return { success: false, errors: `Executable not found for target ${target}`, output: build.stdout };
+  }
+  return runTestBinary(artifact, buildDir, signal, framework, cfg.gtestFilter);
 }
@@ -0,0 +1,323 @@
+import { promises as fsp } from 'node:fs';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import chalk from 'chalk';
+import { exec, ExecResult } from './exec.js';
+import { getBaseName } from '../utils/fileExtensions.js';
+import { TestFramework, FRAMEWORKS } from './framework.js';
+import { Transaction, writeThrough } from '../utils/transaction.js';
+import { log } from '../utils/logger.js';
+
+export interface CMakeTarget {
+  id: string;
+  name: string;
+  type: string;           // EXECUTABLE, STATIC_LIBRARY, ...
+  sources: string[];      // absolute paths
+  artifacts: string[];    // absolute paths
+  dependencies: string[]; // target names
+  linkFragments: string[];
+  definedIn?: { file: string; line: number };   // where add_executable/add_library is
+}
+
+export interface CodeModel {
+  sourceDir: string;
+  buildDir: string;
+  targets: CMakeTarget[];
+}
+
+interface FileApiTarget {
+  name: string;
+  id: string;
+  type: string;
+  sources?: { path: string }[];
+  artifacts?: { path: string }[];
+  dependencies?: { id: string }[];
+  link?: { commandFragments?: { fragment: string }[] };
+  backtrace?: number;
+  backtraceGraph?: {
+    nodes: { file: number; line?: number }[];
+    files: string[];
+  };
+}
+
+const QUERY = path.join('.cmake', 'api', 'v1', 'query', 'codemodel-v2');
+const REPLY = path.join('.cmake', 'api', 'v1', 'reply');
+
+/**
+ * Configure the build directory if it has never been configured or has
+ * no File API codemodel yet. `cmakeArgs` (e.g. -D cache entries) only
+ * apply when it is configured.
+ */
+export async function ensureConfigured(
+  root: string,
+  buildDir: string,
+  signal: AbortSignal,
+  force = false,
+  cmakeArgs: string[] = []
+): Promise<ExecResult | undefined> {
+  const queryFile = path.join(buildDir, QUERY);
+  const configured = existsSync(path.join(buildDir, 'CMakeCache.txt')) && existsSync(path.join(buildDir, REPLY));
+  if (configured && !force) return undefined;
+
+  await fsp.mkdir(path.dirname(queryFile), { recursive: true });
+  await fsp.writeFile(queryFile, '', 'utf8');
+
+  log.info(chalk.blue(`⚙️  Configuring CMake build directory ${buildDir}...`));
+  return exec('cmake', ['-S', root, '-B', buildDir, ...cmakeArgs], root, signal);
+}
+
+/**
+ * Read the latest codemodel-v2 reply of the CMake File API.
+ */
+export async function readCodeModel(buildDir: string): Promise<CodeModel> {
+  const replyDir = path.join(buildDir, REPLY);
+  const index = (await fsp.readdir(replyDir)).filter(f => /^index-.*\.json$/.test(f)).sort().pop();
+  if (!index) throw new Error(`No CMake File API reply in ${replyDir}`);
+
+  const readJson = async (f: string) => JSON.parse(await fsp.readFile(path.join(replyDir, f), 'utf8'));
+  const idx = await readJson(index);
+  const cmFile = idx.reply?.['codemodel-v2']?.jsonFile;
+  if (!cmFile) throw new Error('CMake File API reply has no codemodel-v2');
+
+  const cm = await readJson(cmFile);
+  const sourceDir: string = cm.paths.source;
+  const builtIn: string = cm.paths.build;
+  const refs: { id: string; jsonFile: string }[] = cm.configurations?.[0]?.targets ?? [];
+
+  const raw: FileApiTarget[] = await Promise.all(refs.map(r => readJson(r.jsonFile)));
+  const nameOf = new Map(raw.map(t => [t.id, t.name]));
+
+  const targets = raw.map((t): CMakeTarget => {
+    const node = t.backtrace !== undefined ? t.backtraceGraph?.nodes[t.backtrace] : undefined;
+    return {
+      id: t.id,
+      name: t.name,
+      type: t.type,
+      sources: (t.sources ?? []).map(s => path.resolve(sourceDir, s.path)),
+      artifacts: (t.artifacts ?? []).map(a => path.resolve(builtIn, a.path)),
+      dependencies: (t.dependencies ?? []).map(d => nameOf.get(d.id) ?? d.id),
+      linkFragments: (t.link?.commandFragments ?? []).map(f => f.fragment),
+      definedIn: node && node.line
+        ? { file: path.resolve(sourceDir, t.backtraceGraph!.files[node.file]), line: node.line }
+        : undefined,
+    };
+  });
+
+  return { sourceDir, buildDir: builtIn, targets };
+}
+
+/**
+ * Whether `t` links GoogleMock already.
+ */
+export function linksGmock(t: CMakeTarget): boolean {
+  return [...t.dependencies, ...t.linkFragments].some(x => /gmock/i.test(x));
+}
+
+function isTestTarget(t: CMakeTarget): boolean {
+  return t.type === 'EXECUTABLE'
+    && [...t.dependencies, ...t.linkFragments].some(x => /gtest|gmock|catch2|doctest/i.test(x));
+}
+
+/**
+ * The executable target that compiles `file`.
+ */
+export function findTargetForFile(model: CodeModel, file: string): CMakeTarget | undefined {
+  const abs = path.resolve(file);
+  return model.targets.find(t => t.type === 'EXECUTABLE' && t.sources.includes(abs));
+}
+
+/**
+ * The library target that contains the source under test.
+ */
+export function findLibraryForSource(model: CodeModel, srcFile: string): CMakeTarget | undefined {
+  const abs = path.resolve(srcFile);
+  return model.targets.find(t => t.type.endsWith('_LIBRARY') && t.sources.includes(abs));
+}
+
+/**
+ * Find the offset of the `)` closing the command call that starts on `line`.
+ */
+function closingParen(text: string, line: number): number {
+  let offset = 0;
+  for (let l = 1; l < line; l++) offset = text.indexOf('\n', offset) + 1;
+  let depth = 0;
+  for (let i = text.indexOf('(', offset); i >= 0 && i < text.length; i++) {
+    if (text[i] === '#') i = text.indexOf('\n', i);
+    if (i < 0) break;
+    if (text[i] === '(') depth++;
+    else if (text[i] === ')' && --depth === 0) return i;
+  }
+  return -1;
+}
+
+function cmakePath(from: string, file: string): string {
+  return path.relative(from, file).split(path.sep).join('/');
+}
+
+/**
+ * Link GTest::gmock into `target`, after the CMakeLists.txt that defines
+ * it, unless it links GoogleMock already.
+ * @returns Whether CMakeLists.txt changed
+ */
+export async function linkGmock(target: CMakeTarget, tx?: Transaction): Promise<boolean> {
+  if (linksGmock(target) || !target.definedIn) return false;
+  const listFile = target.definedIn.file;
+  const text = await fsp.readFile(listFile, 'utf8');
+  await writeThrough(tx, listFile, `${text.trimEnd()}\ntarget_link_libraries(${target.name} PRIVATE GTest::gmock)\n`);
+  log.info(chalk.green(`✅ Linked GTest::gmock into target ${target.name} in ${listFile}`));
+  return true;
+}
+
+/**
+ * `base`, or `base_2`, `base_3` ... when the project already has a target
+ * of that name.
+ */
+function uniqueTargetName(model: CodeModel, base: string): string {
+  const taken = new Set(model.targets.map(t => t.name));
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base}_${n}`;
+  return name;
+}
+
+/**
+ * Make a freshly created test file part of the build.
+ *  1. Add it to an existing test executable whose sources live in
+ *     the same directory, or that links the library holding the source.
+ *  2. Otherwise declare a new executable, linked to the framework's main
+ *     and with its ctest discovery (gtest_discover_tests(),
+ *     catch_discover_tests() ...), in the CMakeLists.txt closest to the
+ *     test file.
+ * With `gmock`, GTest::gmock is linked too (also into an existing target
+ * that does not link it yet); Google Test targets only.
+ * @returns Name of the target the file now belongs to
+ */
+export async function registerTestFile(
+  model: CodeModel,
+  testFile: string,
+  srcFile?: string,
+  gmock = false,
+  framework: TestFramework = FRAMEWORKS.gtest,
+  tx?: Transaction
+): Promise<string> {
+  const abs = path.resolve(testFile);
+  gmock &&= framework.kind === 'gtest';
+  const library = srcFile ? findLibraryForSource(model, srcFile) : undefined;
+  const testTargets = model.targets.filter(isTestTarget);
+
+  const existing = testTargets.find(t => t.sources.some(s => path.dirname(s) === path.dirname(abs)))
+                ?? (library && testTargets.find(t => t.dependencies.includes(library.name)));
+
+  if (existing?.definedIn) {
+    const listFile = existing.definedIn.file;
+    const text = await fsp.readFile(listFile, 'utf8');
+    const at = closingParen(text, existing.definedIn.line);
+    if (at >= 0) {
+      const entry = cmakePath(path.dirname(listFile), abs);
+      await writeThrough(tx, listFile, `${text.slice(0, at).trimEnd()}\n  ${entry}${text.slice(at)}`);
+      log.info(chalk.green(`✅ Added ${entry} to target ${existing.name} in ${listFile}`));
+      if (gmock) await linkGmock(existing, tx);
+      return existing.name;
+    }
+  }
+
+  // Closest CMakeLists.txt, walking up from the test file to the source root
+  let dir = path.dirname(abs);
+  while (!existsSync(path.join(dir, 'CMakeLists.txt')) && dir !== model.sourceDir && dir !== path.dirname(dir)) {
+    dir = path.dirname(dir);
+  }
+  const listFile = path.join(dir, 'CMakeLists.txt');
+  const text = existsSync(listFile) ? await fsp.readFile(listFile, 'utf8') : '';
+
+  const name = uniqueTargetName(model, getBaseName(abs));
+  const sources = [cmakePath(dir, abs)];
+  if (!library && srcFile) sources.push(cmakePath(dir, path.resolve(srcFile)));
+  const { package: pkg, module, link, discover, defines } = framework.cmake;
+  const block = [
+    '',
+    ...(new RegExp(`find_package\\s*\\(\\s*${pkg}\\b`, 'i').test(text) ? [] : [`find_package(${pkg} REQUIRED)`]),
+    ...(new RegExp(`include\\s*\\(\\s*${module}\\s*\\)`, 'i').test(text) ? [] : [`include(${module})`]),
+    ...(/enable_testing\s*\(/i.test(text) ? [] : ['enable_testing()']),
+    `add_executable(${name} ${sources.join(' ')})`,
+    `target_link_libraries(${name} PRIVATE ${library ? `${library.name} ` : ''}${gmock ? 'GTest::gmock ' : ''}${link})`,
+    ...(defines ? [`target_compile_definitions(${name} PRIVATE ${defines})`] : []),
+    `${discover}(${name})`,
+    '',
+  ].join('\n');
+  await writeThrough(tx, listFile, text.trimEnd() + '\n' + block);
+  log.info(chalk.green(`✅ Declared new test target ${name} in ${listFile}`));
+  return name;
+}
+
+/* Executable the candidate build tree compiles a candidate test file into */
+export const CANDIDATE_TARGET = 'cpptestgen_candidate';
+
+/**
+ * CMake script for the candidate build tree, passed as CMAKE_PROJECT_INCLUDE
+ * so the project's own CMakeLists.txt stay untouched. Once the top-level
+ * directory is read it declares CANDIDATE_TARGET, compiling `scratch` in
+ * place of `registered`:
+ *  - with the other sources, include directories, definitions, options
+ *    and links of the target that compiles `registered`, if there is one;
+ *  - otherwise like registerTestFile() would declare a new target.
+ * The directory of `registered` comes first on the include path, so its
+ * relative includes still resolve. With `discover`, the candidate's tests
+ * are registered with ctest.
+ */
+export function candidateScript(
+  model: CodeModel,
+  registered: string,
+  scratch: string,
+  srcFile?: string,
+  gmock = false,
+  framework: TestFramework = FRAMEWORKS.gtest,
+  discover = false
+): string {
+  const abs = path.resolve(registered);
+  const owner = findTargetForFile(model, abs);
+  gmock &&= framework.kind === 'gtest' && !(owner && linksGmock(owner));
+  const name = CANDIDATE_TARGET;
+  const quote = (p: string) => `"${p.split(path.sep).join('/')}"`;
+  const { package: pkg, module, link, discover: discoverCmd, defines } = framework.cmake;
+
+  const body = owner ? [
+    `  get_target_property(_dir ${owner.name} SOURCE_DIR)`,
+    `  get_target_property(_sources ${owner.name} SOURCES)`,
+    `  set(_files ${quote(scratch)})`,
+    '  foreach(_source IN LISTS _sources)',
+    '    get_filename_component(_source "${_source}" ABSOLUTE BASE_DIR "${_dir}")',
+    `    if(NOT _source STREQUAL ${quote(abs)})`,
+    '      list(APPEND _files "${_source}")',
+    '    endif()',
+    '  endforeach()',
+    `  add_executable(${name} \${_files})`,
+    '  foreach(_prop LINK_LIBRARIES INCLUDE_DIRECTORIES COMPILE_DEFINITIONS COMPILE_OPTIONS',
+    '                COMPILE_FEATURES LINK_OPTIONS LINK_DIRECTORIES CXX_STANDARD CXX_EXTENSIONS)',
+    `    get_target_property(_value ${owner.name} \${_prop})`,
+    '    if(_value)',
+    `      set_property(TARGET ${name} PROPERTY \${_prop} "\${_value}")`,
+    '    endif()',
+    '  endforeach()',
+    ...(gmock ? [`  target_link_libraries(${name} PRIVATE GTest::gmock)`] : []),
+  ] : (() => {
+    const library = srcFile ? findLibraryForSource(model, srcFile) : undefined;
+    const sources = [quote(scratch), ...(!library && srcFile ? [quote(path.resolve(srcFile))] : [])];
+    return [
+      `  find_package(${pkg} REQUIRED)`,
+      `  add_executable(${name} ${sources.join(' ')})`,
+      `  target_link_libraries(${name} PRIVATE ${library ? `${library.name} ` : ''}${gmock ? 'GTest::gmock ' : ''}${link})`,
+      ...(defines ? [`  target_compile_definitions(${name} PRIVATE ${defines})`] : []),
+    ];
+  })();
+
+  return [
+    'include_guard(GLOBAL)',
+    ...(discover ? ['enable_testing()'] : []),
+    'cmake_language(DEFER DIRECTORY "${CMAKE_SOURCE_DIR}" CALL _cpptestgen_candidate())',
+    'function(_cpptestgen_candidate)',
+    ...body,
+    `  target_include_directories(${name} BEFORE PRIVATE ${quote(path.dirname(abs))})`,
+    ...(discover ? [`  include(${module})`, `  ${discoverCmd}(${name})`] : []),
+    'endfunction()',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,196 @@
+import { promises as fsp } from 'node:fs';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import chalk from 'chalk';
+import { log } from '../utils/logger.js';
+
+export const COMPILE_DB_FILE = 'compile_commands.json';
+
+interface CompileCommand {
+  directory: string;
+  file: string;
+  arguments?: string[];
+  command?: string;
+  output?: string;
+}
+
+export interface SourceFlags {
+  file: string;          // entry the flags were taken from
+  directory: string;
+  flags: string[];       // -I/-D/-std/-f... with paths made absolute
+  includeDirs: string[]; // absolute, in search order
+  defines: string[];     // NAME or NAME=VALUE
+}
+
+// Flags whose value is a path, written either attached or as the next argument
+const PATH_FLAGS = ['-isystem', '-iquote', '-idirafter', '-include', '-I'];
+// Flags dropped together with their value: output and dependency files
+const SKIP_WITH_VALUE = new Set(['-o', '-MF', '-MT', '-MQ', '-Xclang']);
+const SKIP = new Set(['-c', '-M', '-MM', '-MD', '-MMD', '-MP', '-MG']);
+
+const cache = new Map<string, CompileCommand[]>();
+const unmatched = new Set<string>(); // "db\0source" pairs already warned about
+
+/**
+ * Locate compile_commands.json: the configured path, else the project
+ * root, else the CMake build directory.
+ * @returns Absolute path, or undefined when there is none
+ */
+export function findCompileDb(root: string, buildDir: string, configured?: string): string | undefined {
+  const candidates = configured
+    ? [path.resolve(root, configured)]
+    : [path.resolve(root, COMPILE_DB_FILE), path.resolve(root, buildDir, COMPILE_DB_FILE)];
+  return candidates.find(f => existsSync(f));
+}
+
+/**
+ * Split a shell command line the way the build system wrote it.
+ */
+export function splitCommand(command: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+  let pending = false;
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+    if (quote) {
+      if (ch === quote) quote = undefined;
+      else if (ch === '\\' && quote === '"' && i + 1 < command.length) current += command[++i];
+      else current += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      pending = true;
+    } else if (ch === '\\' && i + 1 < command.length) {
+      current += command[++i];
+      pending = true;
+    } else if (/\s/.test(ch)) {
+      if (pending || current) args.push(current);
+      current = '';
+      pending = false;
+    } else {
+      current += ch;
+    }
+  }
+  if (pending || current) args.push(current);
+  return args;
+}
+
+async function loadCompileDb(file: string): Promise<CompileCommand[]> {
+  let entries = cache.get(file);
+  if (!entries) {
+    entries = JSON.parse(await fsp.readFile(file, 'utf8')) as CompileCommand[];
+    cache.set(file, entries);
+  }
+  return entries;
+}
+
+/**
+ * The entry compiling `srcFile`. Headers have no entry of their own, so
+ * fall back to a translation unit in the same directory, then to the one
+ * implementing the header (include/foo.h → src/foo.cpp). An unrelated
+ * translation unit's flags could be wrong for the file, so there is no
+ * other fallback.
+ */
+function findEntry(entries: CompileCommand[], srcFile: string): CompileCommand | undefined {
+  const abs = path.resolve(srcFile);
+  const fileOf = (e: CompileCommand) => path.resolve(e.directory, e.file);
+  const stem = (f: string) => path.basename(f, path.extname(f));
+
+  return entries.find(e => fileOf(e) === abs)
+      ?? entries.find(e => path.dirname(fileOf(e)) === path.dirname(abs))
+      ?? entries.find(e => stem(fileOf(e)) === stem(abs));
+}
+
+/**
+ * Flags, defines and include directories used to compile `srcFile`,
+ * minus the compiler, inputs, outputs and dependency-file options.
+ */
+export async function flagsForSource(dbFile: string, srcFile: string): Promise<SourceFlags | undefined> {
+  const entry = findEntry(await loadCompileDb(dbFile), srcFile);
+  if (!entry) {
+    if (!unmatched.has(`${dbFile}\0${srcFile}`)) {
+      unmatched.add(`${dbFile}\0${srcFile}`);
+      log.warn(chalk.yellow(`⚠️  No entry for ${srcFile} in ${dbFile}, using the default flags`));
+    }
+    return undefined;
+  }
+
+  const args = entry.arguments ?? splitCommand(entry.command ?? '');
+  const dir = entry.directory;
+  const out: SourceFlags = {
+    file: path.resolve(dir, entry.file),
+    directory: dir,
+    flags: [],
+    includeDirs: [],
+    defines: []
+  };
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (SKIP.has(arg)) continue;
+    if (SKIP_WITH_VALUE.has(arg)) { i++; continue; }
+    if (/^-(?:o|MF|MT|MQ).+/.test(arg)) continue;
+
+    const pathFlag = PATH_FLAGS.find(f => arg.startsWith(f));
+    if (pathFlag) {
+      const value = arg === pathFlag ? args[++i] : arg.slice(pathFlag.length);
+      if (value === undefined) break;
+      const abs = path.resolve(dir, value);
+      if (pathFlag !== '-include') out.includeDirs.push(abs);
+      if (pathFlag === '-I') out.flags.push(`-I${abs}`);
+      else out.flags.push(pathFlag, abs);
+      continue;
+    }
+
+    if (arg === '-D' || arg === '-U') {
+      const value = args[++i];
+      if (value === undefined) break;
+      if (arg === '-D') out.defines.push(value);
+      out.flags.push(`${arg}${value}`);
+      continue;
+    }
+    if (arg.startsWith('-D')) out.defines.push(arg.slice(2));
+
+    if (arg.startsWith('-')) out.flags.push(arg);
+    // anything else is an input file
+  }
+  return out;
+}
+
+/**
+ * Put the project's flags first and keep only those configured flags
+ * that do not contradict them (a second -std= would win).
+ */
+export function mergeFlags(dbFlags: string[], configured: string[]): string[] {
+  const hasStd = dbFlags.some(f => f.startsWith('-std='));
+  return [
+    ...dbFlags,
+    ...configured.filter(f => !(hasStd && f.startsWith('-std=')) && !dbFlags.includes(f)),
+  ];
+}
+
+/**
+ * Flags `srcFile` is really compiled with: its compile_commands.json
+ * entry merged with the configured flags, or the configured flags alone.
+ */
+export async function effectiveFlags(srcFile: string, dbFile: string | undefined, configured: string[]): Promise<string[]> {
+  const project = dbFile ? await flagsForSource(dbFile, srcFile) : undefined;
+  return project ? mergeFlags(project.flags, configured) : configured;
+}
+
+/**
+ * Directories searched for `#include` lines of a test for `srcFile`:
+ * the project's own (from compile_commands.json) followed by the
+ * configured `-I` flags.
+ */
+export async function includeSearchPath(
+  root: string,
+  srcFile: string,
+  dbFile?: string,
+  configured: string[] = []
+): Promise<string[]> {
+  const fromDb = dbFile ? (await flagsForSource(dbFile, path.resolve(root, srcFile)))?.includeDirs ?? [] : [];
+  const fromFlags = configured.filter(f => f.startsWith('-I')).map(f => path.resolve(root, f.slice(2)));
+  return [...new Set([...fromDb, ...fromFlags])];
+}
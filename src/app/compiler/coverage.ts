@@ -0,0 +1,181 @@
+import { join, resolve } from 'node:path';
+import { tmpdir } from 'node:os';
+import { promises as fsp } from 'node:fs';
+import fg from 'fast-glob';
+import chalk from 'chalk';
+import { compilerFlags, DEFAULT_CONFIG } from '../config/projectConfig.js';
+import { exec } from './exec.js';
+import { effectiveFlags } from './compileDb.js';
+import { ensureConfigured, readCodeModel, findTargetForFile } from './cmake.js';
+import { BuildSettings } from './build.js';
+import { resolveFramework, frameworkFlags } from './framework.js';
+import { log } from '../utils/logger.js';
+
+export interface CoverageCount {
+  covered: number;
+  total: number;
+}
+
+export interface CoverageReport {
+  file: string;              // source under test
+  lines: CoverageCount;
+  branches: CoverageCount;
+  missedLines: number[];     // executable lines never run
+  missedBranches: number[];  // lines with a branch never taken
+}
+
+/* Instrumentation for the separate coverage build of a CMake project */
+const COVERAGE_CMAKE_ARGS = [
+  '-DCMAKE_BUILD_TYPE=Debug',
+  '-DCMAKE_C_FLAGS=--coverage',
+  '-DCMAKE_CXX_FLAGS=--coverage',
+  '-DCMAKE_EXE_LINKER_FLAGS=--coverage',
+  '-DCMAKE_SHARED_LINKER_FLAGS=--coverage',
+];
+
+export function percent(c: CoverageCount): number {
+  return c.total ? (100 * c.covered) / c.total : 100;
+}
+
+export function formatCoverage(r: CoverageReport | undefined): string {
+  if (!r) return 'n/a';
+  const branches = r.branches.total ? `, branches ${percent(r.branches).toFixed(1)}%` : '';
+  return `lines ${percent(r.lines).toFixed(1)}% (${r.lines.covered}/${r.lines.total})${branches}`;
+}
+
+/**
+ * Parse `gcov -b -c -t` output (also produced by `llvm-cov gcov`) and
+ * keep the counts of `srcFile`. A line listed several times (template
+ * instantiations) counts as run if any instance ran; branches only
+ * taken when an exception propagates are ignored.
+ * @param cwd Directory relative `Source:` paths are resolved against
+ */
+export function parseGcov(text: string, cwd: string, srcFile: string): CoverageReport {
+  const target = resolve(cwd, srcFile);
+  const lines = new Map<number, boolean>();
+  const branches = new Map<string, boolean>();
+  let current: string | undefined;
+  let line = 0;
+
+  for (const raw of text.split('\n')) {
+    const source = raw.match(/^\s*-:\s*0:Source:(.*)$/);
+    if (source) {
+      current = resolve(cwd, source[1].trim());
+      continue;
+    }
+    if (current !== target) continue;
+
+    const count = raw.match(/^\s*(-|#####|=====|\$\$\$\$\$|\d+\*?):\s*(\d+):/);
+    if (count) {
+      line = Number(count[2]);
+      if (count[1] !== '-' && line > 0) lines.set(line, lines.get(line) || parseInt(count[1], 10) > 0);
+      continue;
+    }
+    const branch = raw.match(/^branch\s+(\d+)\s+(?:never executed|taken\s+(\d+)%?)(.*)$/);
+    if (branch && line > 0 && !/\(throw\)/.test(branch[3])) {
+      const key = `${line}:${branch[1]}`;
+      branches.set(key, branches.get(key) || Number(branch[2] ?? 0) > 0);
+    }
+  }
+
+  const missedLines = [...lines].filter(([, hit]) => !hit).map(([n]) => n).sort((a, b) => a - b);
+  const missedBranches = [...new Set([...branches].filter(([, hit]) => !hit).map(([k]) => Number(k.split(':')[0])))]
+    .sort((a, b) => a - b);
+  return {
+    file: target,
+    lines: { covered: lines.size - missedLines.length, total: lines.size },
+    branches: { covered: [...branches.values()].filter(Boolean).length, total: branches.size },
+    missedLines,
+    missedBranches,
+  };
+}
+
+/**
+ * Run gcov over the .gcda files of a test run, writing nothing to disk.
+ */
+async function gcovReport(
+  gcda: string[],
+  cwd: string,
+  srcFile: string,
+  tool: string,
+  signal: AbortSignal
+): Promise<CoverageReport | undefined> {
+  if (!gcda.length) {
+    log.warn(chalk.yellow('⚠️  No coverage data was written'));
+    return undefined;
+  }
+  const [cmd, ...pre] = tool.split(/\s+/);
+  const res = await exec(cmd, [...pre, '-b', '-c', '-t', ...gcda], cwd, signal);
+  const report = parseGcov(res.stdout, cwd, srcFile);
+  if (!report.lines.total) {
+    log.warn(chalk.yellow(`⚠️  ${tool} reported no lines for ${srcFile}`));
+    return undefined;
+  }
+  return report;
+}
+
+/**
+ * Build the test file with `--coverage`, run all of its tests and measure
+ * line and branch coverage of the source under test. g++ mode compiles
+ * into a temporary directory; CMake mode uses a separate instrumented
+ * build directory (`<buildDir>-coverage`) so the regular build is untouched.
+ * @returns The report, or undefined if the build or gcov failed
+ */
+export async function measureCoverage(cfg: BuildSettings & {
+  root: string;
+  testFile: string;
+  srcFile: string;
+  mode: 'cmake' | 'g++';
+  tool?: string;          // gcov, or "llvm-cov gcov" for clang builds
+}, signal: AbortSignal): Promise<CoverageReport | undefined> {
+  const tool = cfg.tool || DEFAULT_CONFIG.coverage.tool;
+  log.info(chalk.blue('📈 Measuring coverage...'));
+
+  if (cfg.mode === 'g++') {
+    const dir = await fsp.mkdtemp(join(tmpdir(), 'coverage_'));
+    try {
+      const bin = join(dir, 'test_bin');
+      const compiler = cfg.compiler || DEFAULT_CONFIG.compiler;
+      const testText = await fsp.readFile(resolve(cfg.root, cfg.testFile), 'utf8');
+      const framework = resolveFramework(cfg.framework, testText);
+      const flags = frameworkFlags(
+        await effectiveFlags(resolve(cfg.root, cfg.srcFile), cfg.compileCommands, cfg.gppFlags || compilerFlags(DEFAULT_CONFIG)),
+        framework,
+        testText
+      );
+      const compile = await exec(compiler, ['-o', bin, cfg.testFile, cfg.srcFile, ...flags, '--coverage', '-O0'], cfg.root, signal);
+      if (compile.code !== 0) {
+        log.warn(chalk.yellow('⚠️  Coverage build failed'));
+        return undefined;
+      }
+      // Failing tests still leave coverage data behind
+      await exec(bin, [], cfg.root, signal);
+      const gcda = await fg('*.gcda', { cwd: dir, absolute: true });
+      return await gcovReport(gcda, cfg.root, cfg.srcFile, tool, signal);
+    } finally {
+      await fsp.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  const buildDir = `${resolve(cfg.root, cfg.buildDir || DEFAULT_CONFIG.buildDir)}-coverage`;
+  const configured = await ensureConfigured(cfg.root, buildDir, signal, false, COVERAGE_CMAKE_ARGS);
+  if (configured && configured.code !== 0) {
+    log.warn(chalk.yellow('⚠️  Coverage build directory could not be configured'));
+    return undefined;
+  }
+  const target = findTargetForFile(await readCodeModel(buildDir), resolve(cfg.root, cfg.testFile));
+  if (!target?.artifacts[0]) {
+    log.warn(chalk.yellow(`⚠️  No CMake target compiles ${cfg.testFile}, coverage skipped`));
+    return undefined;
+  }
+  const build = await exec('cmake', ['--build', buildDir, '--target', target.name], cfg.root, signal);
+  if (build.code !== 0) {
+    log.warn(chalk.yellow('⚠️  Coverage build failed'));
+    return undefined;
+  }
+  // Counters accumulate across runs; start from zero
+  for (const stale of await fg('**/*.gcda', { cwd: buildDir, absolute: true })) await fsp.rm(stale, { force: true });
+  await exec(target.artifacts[0], [], buildDir, signal);
+  const gcda = await fg('**/*.gcda', { cwd: buildDir, absolute: true });
+  return gcovReport(gcda, buildDir, resolve(cfg.root, cfg.srcFile), tool, signal);
+}
@@ -0,0 +1,203 @@
+import path from 'node:path';
+import { scanTestBlocks, blockId } from '../utils/testBlocks.js';
+
+export type Severity = 'fatal' | 'error' | 'warning';
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column?: number;
+}
+
+export interface DiagnosticNote extends SourceLocation {
+  message: string;
+}
+
+export interface Diagnostic extends SourceLocation {
+  severity: Severity;
+  message: string;
+  notes: DiagnosticNote[];
+  includeChain: SourceLocation[];  // as printed: innermost includer first
+  scope?: string;                  // "In function 'int f()'"
+  instantiation: string[];         // template instantiation backtrace
+  testBlock?: string;              // Suite.Name of the TEST block it falls in
+}
+
+const LOC_MSG_RX = /^(.+?):(\d+):(?:(\d+):)?\s*(fatal error|error|warning|note):\s*(.*)$/;
+const REQUIRED_RX = /^(.+?):(\d+):(?:(\d+):)?\s+(required from .*|required by .*|in .*instantiat.*)$/;
+const INCLUDED_RX = /^(?:In file included from|\s+from)\s+(.+?):(\d+)(?::(\d+))?[:,]?$/;
+const SCOPE_RX = /^(.+?):\s+(In (?:instantiation of|substitution of|static member function|member function|function|constructor|destructor|lambda function).*?):?$/;
+const LINK_RX = /^(?:.*\bld(?:\.\w+)?:\s*)?(?:(.+?):)?(?:\(\.[\w.]+\+0x[0-9a-f]+\):\s*)?(undefined reference to .*|multiple definition of .*)$/;
+const LINK_FN_RX = /^(?:.*\bld(?:\.\w+)?:\s*)?.+?: in function [`'](.+)':?$/;
+
+/**
+ * Turn GCC / Clang (and GNU ld) output into structured diagnostics.
+ * Caret and source excerpt lines are ignored; notes, include chains and
+ * template instantiation context are attached to the diagnostic they
+ * belong to.
+ */
+export function parseDiagnostics(output: string): Diagnostic[] {
+  const diags: Diagnostic[] = [];
+  let includeChain: SourceLocation[] = [];
+  let instantiation: string[] = [];
+  let scope: string | undefined;
+  let linkScope: string | undefined;
+  let last: Diagnostic | undefined;
+
+  for (const raw of output.split(/\r?\n/)) {
+    const line = raw.replace(/\x1b\[[0-9;]*m/g, '');   // strip colours
+
+    const inc = line.match(INCLUDED_RX);
+    if (inc) {
+      if (line.startsWith('In file included')) includeChain = [];
+      includeChain.push({ file: inc[1], line: Number(inc[2]), column: inc[3] ? Number(inc[3]) : undefined });
+      continue;
+    }
+
+    const sc = line.match(SCOPE_RX);
+    if (sc && !LOC_MSG_RX.test(line)) {
+      if (/instantiation|substitution/.test(sc[2])) instantiation.push(`${sc[1]}: ${sc[2]}`);
+      else scope = sc[2];
+      continue;
+    }
+
+    const req = line.match(REQUIRED_RX);
+    if (req && !LOC_MSG_RX.test(line)) {
+      instantiation.push(`${req[1]}:${req[2]}: ${req[4]}`);
+      continue;
+    }
+
+    const m = line.match(LOC_MSG_RX);
+    if (m) {
+      const loc = { file: m[1], line: Number(m[2]), column: m[3] ? Number(m[3]) : undefined };
+      const kind = m[4];
+      if (kind === 'note') {
+        if (last) {
+          // Clang reports instantiation context as notes after the error
+          if (/instantiation|requested here|required from/.test(m[5])) {
+            last.instantiation.push(`${loc.file}:${loc.line}: ${m[5]}`);
+          } else {
+            last.notes.push({ ...loc, message: m[5] });
+          }
+        }
+        continue;
+      }
+      last = {
+        ...loc,
+        severity: kind === 'fatal error' ? 'fatal' : kind as Severity,
+        message: m[5],
+        notes: [],
+        includeChain,
+        scope,
+        instantiation,
+      };
+      diags.push(last);
+      includeChain = [];
+      instantiation = [];
+      scope = undefined;
+      continue;
+    }
+
+    const fn = line.match(LINK_FN_RX);
+    if (fn) {
+      linkScope = fn[1];
+      continue;
+    }
+
+    const link = line.match(LINK_RX);
+    if (link) {
+      last = {
+        file: link[1] ?? '',
+        line: 0,
+        severity: 'error',
+        message: link[2],
+        notes: [],
+        includeChain: [],
+        scope: linkScope ? `In function '${linkScope}'` : undefined,
+        instantiation: [],
+      };
+      diags.push(last);
+    }
+  }
+
+  return diags;
+}
+
+/**
+ * Remove repeated and cascaded diagnostics:
+ *  • identical location + message
+ *  • everything after a fatal error (compilation stops there)
+ *  • further errors on a line that already has one, kept as notes
+ */
+export function dedupeDiagnostics(diags: Diagnostic[]): Diagnostic[] {
+  const out: Diagnostic[] = [];
+  const seen = new Set<string>();
+  const byLine = new Map<string, Diagnostic>();
+
+  for (const d of diags) {
+    const key = `${d.file}:${d.line}:${d.column ?? ''}:${d.message}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const lineKey = `${d.file}:${d.line}`;
+    const first = d.line > 0 ? byLine.get(lineKey) : undefined;
+    if (first && d.severity === 'error') {
+      first.notes.push({ file: d.file, line: d.line, column: d.column, message: d.message });
+      continue;
+    }
+    if (d.severity !== 'warning') byLine.set(lineKey, d);
+
+    out.push(d);
+    if (d.severity === 'fatal') break;
+  }
+  return out;
+}
+
+/**
+ * Record which TEST block each diagnostic concerns: directly by line,
+ * through an instantiation or note pointing into the test file, or via
+ * the `Suite_Name_Test::TestBody` symbol of a linker error.
+ */
+export function attachTestBlocks(diags: Diagnostic[], testFile: string, content: string): Diagnostic[] {
+  const blocks = scanTestBlocks(content);
+  const base = path.basename(testFile);
+  const inTest = (file: string) => path.basename(file) === base;
+  const blockAt = (line: number) => blocks.find(b => line >= b.startLine && line <= b.endLine);
+
+  for (const d of diags) {
+    let block = inTest(d.file) ? blockAt(d.line) : undefined;
+
+    for (const ref of [...d.notes, ...d.instantiation.map(parseRef)]) {
+      if (block) break;
+      if (ref && inTest(ref.file)) block = blockAt(ref.line);
+    }
+
+    const sym = d.scope?.match(/\b(\w+?)_(\w+)_Test::TestBody\b/);
+    if (!block && sym) block = blocks.find(b => b.suite === sym[1] && b.name === sym[2]);
+
+    if (block) d.testBlock = blockId(block);
+  }
+  return diags;
+}
+
+function parseRef(text: string): SourceLocation | undefined {
+  const m = text.match(/^(.+?):(\d+):/);
+  return m ? { file: m[1], line: Number(m[2]) } : undefined;
+}
+
+/**
+ * Compact text rendering, suitable for logs and LLM prompts.
+ */
+export function renderDiagnostics(diags: Diagnostic[]): string {
+  return diags.map(d => {
+    const loc = d.line ? `${d.file}:${d.line}${d.column ? `:${d.column}` : ''}` : d.file || '<link>';
+    const lines = [`${loc}: ${d.severity}: ${d.message}${d.testBlock ? `  [in TEST ${d.testBlock}]` : ''}`];
+    if (d.scope) lines.push(`  ${d.scope}`);
+    if (d.includeChain.length) {
+      lines.push(`  included from: ${d.includeChain.map(l => `${l.file}:${l.line}`).join(', from ')}`);
+    }
+    for (const i of d.instantiation) lines.push(`  ${i}`);
+    for (const n of d.notes) lines.push(`  note: ${n.file}:${n.line}: ${n.message}`);
+    return lines.join('\n');
+  }).join('\n');
+}
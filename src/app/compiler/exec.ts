@@ -0,0 +1,31 @@
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+
+export interface ExecResult {
+  code: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Run a command to completion, capturing stdout and stderr.
+ */
+export async function exec(cmd: string, args: string[], cwd: string, signal: AbortSignal): Promise<ExecResult> {
+  const child = spawn(cmd, args, {
+    cwd,
+    signal,
+    stdio: ['inherit', 'pipe', 'pipe']
+  });
+
+  let stdout = '';
+  let stderr = '';
+  child.stdout?.on('data', (data) => {
+    stdout += data.toString();
+  });
+  child.stderr?.on('data', (data) => {
+    stderr += data.toString();
+  });
+
+  const [code] = await once(child, 'exit');
+  return { code, stdout, stderr };
+}
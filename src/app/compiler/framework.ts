@@ -0,0 +1,145 @@
+import { TestCaseResult, readGTestJson } from './gtestResults.js';
+import { readJUnitXml } from './junitResults.js';
+
+/* Unit test frameworks generated tests can be written for */
+export type FrameworkKind = 'gtest' | 'catch2' | 'doctest';
+export const FRAMEWORK_KINDS: FrameworkKind[] = ['gtest', 'catch2', 'doctest'];
+
+/* `auto`: the framework the existing test file uses, Google Test for new files */
+export type FrameworkSetting = FrameworkKind | 'auto';
+
+export interface TestFramework {
+  kind: FrameworkKind;
+  label: string;               // as named in prompts
+  include: string;             // header added to every test file
+  detect: RegExp;              // includes that give a test file's framework away
+  prompt: {
+    macro: string;             // TEST, TEST_CASE
+    block: string;             // the test block with its arguments
+    nameArg: string;           // argument of the block the `name` field must equal
+    assertions: string;        // assertion macro families
+    perFunction: string;       // blocks to write for each function
+    hint: string;              // guideline on expressive assertions
+    forbidden?: string;        // constructs not allowed; Google Test's come from the test styles
+    example(name: string): string;
+  };
+  cmake: {
+    package: string;           // find_package() name
+    module: string;            // include() providing the discovery command
+    link: string;              // imported target providing main()
+    discover: string;          // ctest discovery command
+    defines?: string;          // compile definitions a new target needs
+  };
+  reportExt: string;
+  /* Flags providing main() in single-file builds; Google Test's come from `linkLibs` */
+  mainFlags(testText: string): string[];
+  /* Run arguments writing the report to `file`, restricted to a "A:B" filter */
+  runArgs(file: string, filter?: string): string[];
+  readReport(file: string): Promise<TestCaseResult[] | undefined>;
+}
+
+/* Catch2 test specs and doctest filters treat these as syntax */
+const escapeSpec = (name: string, special: RegExp) => name.replace(special, '\\$&');
+
+export const FRAMEWORKS: Record<FrameworkKind, TestFramework> = {
+  gtest: {
+    kind: 'gtest',
+    label: 'Google Test',
+    include: '<gtest/gtest.h>',
+    detect: /#\s*include\s*[<"](?:gtest|gmock)\//,
+    prompt: {
+      macro: 'TEST',
+      block: 'TEST(SuiteName, TestName)',
+      nameArg: 'test name (second argument)',
+      assertions: 'ASSERT_/EXPECT_',
+      perFunction: '`TEST` or `TEST_F`',
+      hint: 'Google Test matchers to make the assertions expressive (e.g., `ASSERT_EQ`, `EXPECT_TRUE`, `ASSERT_THROW`)',
+      example: name => `TEST(Foo, ${name}) { … }`,
+    },
+    cmake: { package: 'GTest', module: 'GoogleTest', link: 'GTest::gtest_main', discover: 'gtest_discover_tests' },
+    reportExt: '.json',
+    mainFlags: () => [],
+    runArgs: (file, filter) => [`--gtest_output=json:${file}`, ...(filter ? [`--gtest_filter=${filter}`] : [])],
+    readReport: readGTestJson,
+  },
+  catch2: {
+    kind: 'catch2',
+    label: 'Catch2',
+    include: '<catch2/catch_test_macros.hpp>',
+    detect: /#\s*include\s*[<"](?:catch2\/|catch\.hpp)/,
+    prompt: {
+      macro: 'TEST_CASE',
+      block: 'TEST_CASE("TestName", "[tag]")',
+      nameArg: 'name string (first argument)',
+      assertions: 'REQUIRE/CHECK',
+      perFunction: '`TEST_CASE`',
+      hint: 'Catch2 assertions to make the checks expressive (e.g., `REQUIRE`, `CHECK_FALSE`, `REQUIRE_THROWS_AS`)',
+      forbidden: 'fixtures (TEST_CASE_METHOD), TEMPLATE_TEST_CASE, GENERATE',
+      example: name => `TEST_CASE("${name}", "[foo]") { … }`,
+    },
+    cmake: { package: 'Catch2', module: 'Catch', link: 'Catch2::Catch2WithMain', discover: 'catch_discover_tests' },
+    reportExt: '.xml',
+    // v2 is a single header that defines main() on request; v3 ships Catch2Main
+    mainFlags: text => /catch\.hpp\b/.test(text)
+      ? (/CATCH_CONFIG_(?:MAIN|RUNNER)\b/.test(text) ? [] : ['-DCATCH_CONFIG_MAIN'])
+      : (/\bint\s+main\s*\(/.test(text) ? ['-lCatch2'] : ['-lCatch2Main', '-lCatch2']),
+    runArgs: (file, filter) => [
+      '--reporter', 'junit', '--out', file,
+      ...(filter ? [filter.split(':').map(n => escapeSpec(n, /[,[\]\\~"]/g)).join(',')] : []),
+    ],
+    readReport: readJUnitXml,
+  },
+  doctest: {
+    kind: 'doctest',
+    label: 'doctest',
+    include: '<doctest/doctest.h>',
+    detect: /#\s*include\s*[<"](?:doctest\/)?doctest\.h/,
+    prompt: {
+      macro: 'TEST_CASE',
+      block: 'TEST_CASE("TestName")',
+      nameArg: 'name string (first argument)',
+      assertions: 'REQUIRE/CHECK',
+      perFunction: '`TEST_CASE`',
+      hint: 'doctest assertions to make the checks expressive (e.g., `CHECK_EQ`, `REQUIRE_FALSE`, `CHECK_THROWS_AS`)',
+      forbidden: 'fixtures (TEST_CASE_FIXTURE), TEST_CASE_TEMPLATE',
+      example: name => `TEST_CASE("${name}") { … }`,
+    },
+    cmake: {
+      package: 'doctest', module: 'doctest', link: 'doctest::doctest', discover: 'doctest_discover_tests',
+      defines: 'DOCTEST_CONFIG_IMPLEMENT_WITH_MAIN'
+    },
+    reportExt: '.xml',
+    mainFlags: text => /DOCTEST_CONFIG_IMPLEMENT/.test(text) ? [] : ['-DDOCTEST_CONFIG_IMPLEMENT_WITH_MAIN'],
+    runArgs: (file, filter) => [
+      '--reporters=junit', `--out=${file}`,
+      ...(filter ? [`--test-case=${filter.split(':').map(n => escapeSpec(n, /[,\\]/g)).join(',')}`] : []),
+    ],
+    readReport: readJUnitXml,
+  },
+};
+
+/**
+ * The framework a test file is written for, judged by its includes.
+ */
+export function detectFramework(testText: string | undefined): FrameworkKind | undefined {
+  return FRAMEWORK_KINDS.find(k => FRAMEWORKS[k].detect.test(testText ?? ''));
+}
+
+/**
+ * The framework to generate and run tests with: the existing test file
+ * decides, the setting covers new files.
+ */
+export function resolveFramework(setting: FrameworkSetting = 'auto', testText?: string): TestFramework {
+  return FRAMEWORKS[detectFramework(testText) ?? (setting === 'auto' ? 'gtest' : setting)];
+}
+
+const GTEST_LIB_RX = /^-l(?:gtest|gmock)(?:_main)?$/;
+
+/**
+ * Single-file build flags for a framework: Google Test libraries from
+ * `linkLibs` give way to what provides main() for the others.
+ */
+export function frameworkFlags(flags: string[], framework: TestFramework, testText: string): string[] {
+  if (framework.kind === 'gtest') return flags;
+  return [...flags.filter(f => !GTEST_LIB_RX.test(f)), ...framework.mainFlags(testText)];
+}
@@ -0,0 +1,101 @@
+import { promises as fsp } from 'node:fs';
+import { existsSync } from 'node:fs';
+
+export type TestStatus = 'passed' | 'failed' | 'skipped' | 'disabled';
+
+export interface TestFailure {
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+export interface TestCaseResult {
+  suite: string;
+  name: string;
+  status: TestStatus;
+  time: number;          // seconds
+  failures: TestFailure[];
+}
+
+interface GTestJson {
+  testsuites?: {
+    name: string;
+    testsuite?: {
+      name: string;
+      status?: string;    // RUN | NOTRUN
+      result?: string;    // COMPLETED | SKIPPED | SUPPRESSED
+      time?: string;      // "0.001s"
+      failures?: { failure?: string }[];
+    }[];
+  }[];
+}
+
+function parseFailure(text: string): TestFailure {
+  // "path/foo_test.cpp:12\nExpected equality of these values: ..."
+  const m = text.match(/^(.+?):(\d+)\n([\s\S]*)$/);
+  return m
+    ? { file: m[1], line: Number(m[2]), message: m[3].trim() }
+    : { message: text.trim() };
+}
+
+/**
+ * Convert the document written by `--gtest_output=json:<file>` into
+ * one record per test.
+ */
+export function parseGTestJson(text: string): TestCaseResult[] {
+  const doc = JSON.parse(text) as GTestJson;
+  const out: TestCaseResult[] = [];
+
+  for (const suite of doc.testsuites ?? []) {
+    for (const t of suite.testsuite ?? []) {
+      const failures = (t.failures ?? []).map(f => parseFailure(f.failure ?? ''));
+      let status: TestStatus;
+      if (t.status === 'NOTRUN') status = 'disabled';
+      else if (failures.length) status = 'failed';
+      else if (t.result === 'SKIPPED' || t.result === 'SUPPRESSED') status = 'skipped';
+      else status = 'passed';
+
+      out.push({
+        suite: suite.name,
+        name: t.name,
+        status,
+        time: parseFloat(t.time ?? '0') || 0,
+        failures,
+      });
+    }
+  }
+  return out;
+}
+
+/**
+ * Read a Google Test JSON report if the binary got far enough to write one.
+ */
+export async function readGTestJson(file: string): Promise<TestCaseResult[] | undefined> {
+  if (!existsSync(file)) return undefined;
+  try {
+    return parseGTestJson(await fsp.readFile(file, 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * How a test is shown: `Suite.Name`, or the bare name for frameworks
+ * without suites (Catch2, doctest).
+ */
+export function testName(t: Pick<TestCaseResult, 'suite' | 'name'>): string {
+  return t.suite ? `${t.suite}.${t.name}` : t.name;
+}
+
+/**
+ * Compact text rendering of failed tests for logs and LLM prompts.
+ */
+export function renderTestFailures(tests: TestCaseResult[]): string {
+  return tests
+    .filter(t => t.status === 'failed')
+    .map(t => [
+      `${testName(t)}: FAILED`,
+      ...t.failures.map(f => `  ${f.file ? `${f.file}:${f.line}: ` : ''}${f.message.replace(/\n/g, '\n  ')}`),
+    ].join('\n'))
+    .join('\n');
+}
@@ -0,0 +1,71 @@
+import { promises as fsp } from 'node:fs';
+import { existsSync } from 'node:fs';
+import { TestCaseResult, TestFailure, TestStatus } from './gtestResults.js';
+
+const TESTCASE_RX = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+const FAILURE_RX = /<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+const ATTR_RX = /([\w:-]+)\s*=\s*"([^"]*)"/g;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (all, e: string) => {
+    if (e[0] !== '#') return ENTITIES[e] ?? all;
+    return String.fromCodePoint(e[1] === 'x' || e[1] === 'X' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10));
+  });
+}
+
+function attributes(text: string): Record<string, string> {
+  return Object.fromEntries([...text.matchAll(ATTR_RX)].map(m => [m[1], unescapeXml(m[2])]));
+}
+
+function parseFailure(attrs: Record<string, string>, body: string): TestFailure {
+  // Catch2: "FAILED:\n  REQUIRE( a == b )\n...\nat path/foo_test.cpp:12"
+  // doctest: "path/foo_test.cpp(12):\nCHECK( a == b ) is NOT correct!..."
+  const text = unescapeXml(body).trim();
+  const at = text.match(/^at (.+):(\d+)$/m) ?? text.match(/^(.+?)\((\d+)\):/m) ?? text.match(/^(.+?):(\d+):/m);
+  const message = (at ? text.replace(at[0], '') : text).replace(/^FAILED:\s*\n/, '').trim() || attrs.message || '';
+  return at ? { file: at[1], line: Number(at[2]), message } : { message };
+}
+
+/**
+ * Convert a JUnit XML report (Catch2 `--reporter junit`, doctest
+ * `--reporters=junit`) into one record per test case. These frameworks
+ * name tests by a string alone, so `suite` stays empty; Catch2 reports
+ * each leaf SECTION as "Name/Section".
+ */
+export function parseJUnitXml(text: string): TestCaseResult[] {
+  const out: TestCaseResult[] = [];
+  for (const m of text.matchAll(TESTCASE_RX)) {
+    const attrs = attributes(m[1]);
+    const body = m[2] ?? '';
+    const failures = [...body.matchAll(FAILURE_RX)].map(f => parseFailure(attributes(f[2]), f[3] ?? ''));
+    let status: TestStatus;
+    if (failures.length) status = 'failed';
+    else if (/<skipped\b/.test(body)) status = 'skipped';
+    else if (attrs.status === 'notrun') status = 'disabled';
+    else status = 'passed';
+
+    out.push({
+      suite: '',
+      name: attrs.name ?? '',
+      status,
+      time: parseFloat(attrs.time ?? '0') || 0,
+      failures,
+    });
+  }
+  return out;
+}
+
+/**
+ * Read a JUnit XML report if the binary got far enough to write one.
+ */
+export async function readJUnitXml(file: string): Promise<TestCaseResult[] | undefined> {
+  if (!existsSync(file)) return undefined;
+  try {
+    const text = await fsp.readFile(file, 'utf8');
+    return /<testsuites?\b/.test(text) ? parseJUnitXml(text) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -1,15 +1,106 @@
 import { spawn } from 'node:child_process';
 import { once } from 'node:events';
+import { createHash } from 'node:crypto';
 import { promises as fsp } from 'node:fs';
+import { existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { unifiedDiff } from '../utils/diff.js';
+import { Transaction } from '../utils/transaction.js';
 
-export async function tryApply(file: string, patchTxt: string, signal: AbortSignal): Promise<boolean> {
-  // Save patch to tmp
-  const tmp = await fsp.mkdtemp('/tmp/patch-');
-  const patchPath = `${tmp}/patch.diff`;
-  await fsp.writeFile(patchPath, patchTxt, 'utf8');
+/*
+ * A saved patch is a unified diff per file, each preceded by a line naming
+ * the file (relative to the project root) and the hashes of its content
+ * before and after, so `apply` can tell whether the file moved on since.
+ */
+const HEADER_RX = /^# gen-unit-test: (.+) (none|[0-9a-f]{64}) -> ([0-9a-f]{64})$/gm;
+
+export interface FilePatch {
+  file: string;      // relative to the project root
+  base?: string;     // sha256 of the content the diff was made against; undefined for a new file
+  result: string;    // sha256 of the content once applied
+  diff: string;
+}
+
+export type ApplyStatus = 'applied' | 'applied-changed' | 'already-applied' | 'conflict';
+
+export interface ApplyOutcome {
+  file: string;
+  status: ApplyStatus;
+}
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+const label = (file: string) => file.split(path.sep).join('/');
 
-  const p = spawn('patch', ['-p0', file, patchPath], { signal });
+/**
+ * The patch turning `before` into `after` for a file of the project.
+ * @param before Current content, undefined when the file does not exist yet
+ * @returns Empty string when nothing changes
+ */
+export function createPatch(root: string, file: string, before: string | undefined, after: string): string {
+  const rel = label(path.relative(root, path.resolve(root, file)));
+  const diff = unifiedDiff(before ?? '', after, before === undefined ? '/dev/null' : rel, rel);
+  if (!diff) return '';
+  return `# gen-unit-test: ${rel} ${before === undefined ? 'none' : sha256(before)} -> ${sha256(after)}\n${diff}`;
+}
+
+/**
+ * Split a saved patch into its files.
+ */
+export function parsePatch(text: string): FilePatch[] {
+  const heads = [...text.matchAll(HEADER_RX)];
+  return heads.map((m, i) => ({
+    file: m[1],
+    base: m[2] === 'none' ? undefined : m[2],
+    result: m[3],
+    diff: text.slice(m.index! + m[0].length + 1, heads[i + 1]?.index ?? text.length),
+  }));
+}
+
+/**
+ * Apply a unified diff to one file with `patch`. Hunks must match exactly
+ * (no fuzz), and a failed apply leaves neither a half-patched file nor
+ * reject files behind.
+ * @param check Only find out whether the diff applies, without writing
+ */
+export async function tryApply(file: string, patchTxt: string, signal: AbortSignal, check = false): Promise<boolean> {
+  const tmp = await fsp.mkdtemp(path.join(tmpdir(), 'patch-'));
+  const patchPath = path.join(tmp, 'patch.diff');
+  await fsp.writeFile(patchPath, patchTxt, 'utf8');
+  const args = ['-p0', '--batch', '--forward', '--fuzz=0', '--silent', '--no-backup-if-mismatch', '--reject-file=-'];
+  if (check) args.push('--dry-run');
+  const p = spawn('patch', [...args, file, patchPath], { signal, stdio: 'ignore' });
   const [code] = await once(p, 'exit');
   await fsp.rm(tmp, { recursive: true, force: true });
   return code === 0;
 }
+
+/**
+ * Apply a saved patch to the project. Every file is checked first: one
+ * that changed since the patch was made must still take the diff cleanly,
+ * otherwise it is a conflict and nothing is written.
+ */
+export async function applyPatch(root: string, text: string, signal: AbortSignal, tx?: Transaction): Promise<ApplyOutcome[]> {
+  const outcomes: ApplyOutcome[] = [];
+  for (const p of parsePatch(text)) {
+    const target = path.resolve(root, p.file);
+    const current = existsSync(target) ? sha256(await fsp.readFile(target, 'utf8')) : undefined;
+    let status: ApplyStatus;
+    if (current === p.result) status = 'already-applied';
+    else if (current === p.base) status = 'applied';
+    else if (current !== undefined && p.base !== undefined && await tryApply(target, p.diff, signal, true)) status = 'applied-changed';
+    else status = 'conflict';
+    outcomes.push({ file: p.file, status });
+  }
+  if (outcomes.some(o => o.status === 'conflict')) return outcomes;
+
+  for (const [i, p] of parsePatch(text).entries()) {
+    if (outcomes[i].status === 'already-applied') continue;
+    const target = path.resolve(root, p.file);
+    await fsp.mkdir(path.dirname(target), { recursive: true });
+    await tx?.backup(target);
+    if (!await tryApply(target, p.diff, signal)) outcomes[i].status = 'conflict';
+  }
+  return outcomes;
+}
@@ -0,0 +1,262 @@
+import { promises as fsp } from 'node:fs';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import yaml from 'js-yaml';
+import { ProviderKind, PROVIDER_KINDS } from '../llm/provider.js';
+import { UnresolvedPolicy } from '../utils/systemHeaders.js';
+import { Analyzer } from '../analysis/extractApi.js';
+import { TestStyle, TEST_STYLES } from '../prompt/schema.js';
+import { FrameworkSetting, FRAMEWORK_KINDS } from '../compiler/framework.js';
+
+export const CONFIG_FILE = '.cpptestgen.yaml';
+
+export interface ProjectConfig {
+  root: string;
+  compiler: string;           // g++ / clang++ executable
+  gpp: boolean;               // single-file compiler mode instead of CMake
+  flags: string[];            // compile flags, e.g. -std=c++17
+  includeDirs: string[];      // passed as -I<dir>, relative to root
+  linkLibs: string[];         // passed as -l<lib>
+  cmakeTarget: string;        // fallback when the File API cannot map the test file
+  buildDir: string;           // CMake build directory, relative to root
+  cmakeRunner: 'direct' | 'ctest';
+  registerTests: boolean;     // add new test files to CMakeLists.txt
+  compileCommands?: string;   // compile_commands.json, default: root or buildDir
+  systemIncludeDirs: string[]; // <...> search path; empty: ask the compiler
+  unresolvedIncludes: UnresolvedPolicy;  // what to do with <...> includes that do not exist
+  analyzer: Analyzer;         // API extraction: clang AST, fallback parser, or auto
+  testNaming: string;         // pattern with {base} and {ext}
+  testStyles: TestStyle[];    // plain, fixture, parameterized, typed
+  framework: FrameworkSetting; // gtest, catch2, doctest; auto: from the test file
+  maxFixAttempts: number;
+  regenerateRounds: number;   // retries for tests that failed validation, with the failures in the prompt
+  llm: {
+    provider: ProviderKind;
+    model?: string;
+    host?: string;
+  };
+  prompt: {
+    constraints: string[];    // extra lines appended to CONSTRAINTS
+    middlewares: string[];    // modules, fragments or directories of them, relative to root
+  };
+  coverage: {
+    enabled: boolean;         // run: generate in rounds until the targets are met
+    lineTarget: number;       // percent of lines of the source under test
+    branchTarget: number;     // percent of branches; 0 = no branch target
+    maxRounds: number;
+    tool: string;             // gcov, or "llvm-cov gcov" for clang builds
+  };
+  mocks: {
+    enabled: boolean;         // generate GoogleMock classes for dependencies and link gmock
+    header: string;           // shared mocks header, relative to the test file's directory
+  };
+}
+
+export type ConfigOverrides = {
+  [K in keyof ProjectConfig]?: ProjectConfig[K] extends object
+    ? ProjectConfig[K] extends unknown[] ? ProjectConfig[K] : Partial<ProjectConfig[K]>
+    : ProjectConfig[K];
+};
+
+export interface ResolvedConfig {
+  config: ProjectConfig;
+  file?: string;                     // config file used, if any
+  sources: Record<string, string>;   // dotted key → 'default' | 'cli' | file path
+}
+
+export const DEFAULT_CONFIG: ProjectConfig = {
+  root: '.',
+  compiler: 'g++',
+  gpp: true,
+  flags: ['-std=c++17'],
+  includeDirs: [],
+  linkLibs: ['gtest_main', 'gtest', 'pthread'],
+  cmakeTarget: 'ut_bin',
+  buildDir: 'build',
+  cmakeRunner: 'direct',
+  registerTests: false,
+  systemIncludeDirs: [],
+  unresolvedIncludes: 'replace',
+  analyzer: 'auto',
+  testNaming: '{base}_test{ext}',
+  testStyles: ['plain'],
+  framework: 'auto',
+  maxFixAttempts: 3,
+  regenerateRounds: 1,
+  llm: { provider: 'ollama' },
+  prompt: { constraints: [], middlewares: [] },
+  coverage: { enabled: false, lineTarget: 80, branchTarget: 0, maxRounds: 3, tool: 'gcov' },
+  mocks: { enabled: false, header: 'mocks.h' },
+};
+
+type FieldType = 'string' | 'number' | 'boolean' | 'string[]';
+
+// Every configurable key and its expected type; also defines print order
+const FIELDS: Record<string, FieldType> = {
+  'root'              : 'string',
+  'compiler'          : 'string',
+  'gpp'               : 'boolean',
+  'flags'             : 'string[]',
+  'includeDirs'       : 'string[]',
+  'linkLibs'          : 'string[]',
+  'cmakeTarget'       : 'string',
+  'buildDir'          : 'string',
+  'cmakeRunner'       : 'string',
+  'registerTests'     : 'boolean',
+  'compileCommands'   : 'string',
+  'systemIncludeDirs' : 'string[]',
+  'unresolvedIncludes': 'string',
+  'analyzer'          : 'string',
+  'testNaming'        : 'string',
+  'testStyles'        : 'string[]',
+  'framework'         : 'string',
+  'maxFixAttempts'    : 'number',
+  'regenerateRounds'  : 'number',
+  'llm.provider'      : 'string',
+  'llm.model'         : 'string',
+  'llm.host'          : 'string',
+  'prompt.constraints': 'string[]',
+  'prompt.middlewares': 'string[]',
+  'coverage.enabled'  : 'boolean',
+  'coverage.lineTarget': 'number',
+  'coverage.branchTarget': 'number',
+  'coverage.maxRounds': 'number',
+  'coverage.tool'     : 'string',
+  'mocks.enabled'     : 'boolean',
+  'mocks.header'      : 'string',
+};
+
+// Keys limited to a fixed set of values; for a list, each of its entries
+const CHOICES: Record<string, readonly string[]> = {
+  'cmakeRunner'       : ['direct', 'ctest'],
+  'unresolvedIncludes': ['drop', 'replace', 'error'],
+  'analyzer'          : ['auto', 'clang', 'fallback'],
+  'testStyles'        : TEST_STYLES,
+  'framework'         : ['auto', ...FRAMEWORK_KINDS],
+  'llm.provider'      : PROVIDER_KINDS,
+};
+
+function getPath(obj: Record<string, unknown>, key: string): unknown {
+  return key.split('.').reduce<unknown>(
+    (o, k) => (o !== null && typeof o === 'object' ? (o as Record<string, unknown>)[k] : undefined),
+    obj
+  );
+}
+
+function setPath(obj: Record<string, unknown>, key: string, value: unknown): void {
+  const parts = key.split('.');
+  const last = parts.pop()!;
+  let o = obj;
+  for (const p of parts) o = (o[p] ??= {}) as Record<string, unknown>;
+  o[last] = value;
+}
+
+function checkType(key: string, value: unknown, file: string): void {
+  const type = FIELDS[key];
+  const ok = type === 'string[]'
+    ? Array.isArray(value) && value.every(v => typeof v === 'string')
+    : typeof value === type;
+  if (!ok) {
+    throw new Error(`${file}: "${key}" must be ${type === 'string[]' ? 'a list of strings' : `a ${type}`}`);
+  }
+  const choices = CHOICES[key];
+  const bad = choices && (Array.isArray(value) ? value : [value]).find(v => !choices.includes(v));
+  if (bad !== undefined) {
+    throw new Error(`${file}: "${key}" must be one of ${choices.map(c => `"${c}"`).join(', ')}, not "${bad}"`);
+  }
+}
+
+/**
+ * Walk up from `from` looking for a .cpptestgen.yaml.
+ * @returns Absolute path of the config file, or undefined
+ */
+export function findConfigFile(from: string = process.cwd()): string | undefined {
+  let dir = path.resolve(from);
+  while (true) {
+    const candidate = path.join(dir, CONFIG_FILE);
+    if (existsSync(candidate)) return candidate;
+    const parent = path.dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Merge defaults ← config file ← CLI overrides and remember where
+ * each value came from.
+ * `root` in the file is relative to the file's directory; when the file
+ * does not set it, the directory holding the file is the root.
+ */
+export async function loadConfig(
+  overrides: ConfigOverrides = {},
+  from?: string
+): Promise<ResolvedConfig> {
+  const file = findConfigFile(from);
+  let fromFile: Record<string, unknown> = {};
+
+  if (file) {
+    const parsed = yaml.load(await fsp.readFile(file, 'utf8'));
+    if (parsed != null && typeof parsed !== 'object') {
+      throw new Error(`${file}: expected a mapping at top level`);
+    }
+    fromFile = (parsed ?? {}) as Record<string, unknown>;
+  }
+
+  const config = structuredClone(DEFAULT_CONFIG);
+  // Filled key by key; FIELDS and the checks below keep it a ProjectConfig
+  const fields = config as unknown as Record<string, unknown>;
+  const sources: Record<string, string> = {};
+
+  for (const key of Object.keys(FIELDS)) {
+    const cliValue = getPath(overrides, key);
+    let fileValue = getPath(fromFile, key);
+
+    if (file && key === 'root') {
+      fileValue = path.resolve(path.dirname(file), (fileValue as string | undefined) ?? '.');
+    }
+
+    if (cliValue !== undefined) {
+      setPath(fields, key, cliValue);
+      sources[key] = 'cli';
+    } else if (file && fileValue !== undefined) {
+      checkType(key, fileValue, file);
+      setPath(fields, key, fileValue);
+      sources[key] = file;
+    } else {
+      sources[key] = 'default';
+    }
+  }
+
+  return { config, file, sources };
+}
+
+/**
+ * Flags passed to the compiler in single-file mode; gmock is linked when
+ * mocks are enabled.
+ */
+export function compilerFlags(config: ProjectConfig): string[] {
+  const libs = [...config.linkLibs];
+  // gmock needs gtest, so it goes first when linking statically
+  if (config.mocks.enabled && !libs.includes('gmock')) {
+    const gtest = libs.indexOf('gtest');
+    libs.splice(gtest < 0 ? libs.length : gtest, 0, 'gmock');
+  }
+  return [
+    ...config.flags,
+    ...config.includeDirs.map(d => `-I${d}`),
+    ...libs.map(l => `-l${l}`),
+  ];
+}
+
+/**
+ * Render the effective configuration, one key per line with its source.
+ */
+export function formatConfig(resolved: ResolvedConfig): string {
+  const keys = Object.keys(FIELDS);
+  const width = Math.max(...keys.map(k => k.length));
+  return keys.map(key => {
+    const value = getPath(resolved.config as unknown as Record<string, unknown>, key);
+    const shown = value === undefined ? '(unset)' : JSON.stringify(value);
+    return `${key.padEnd(width)}  ${shown}  # ${resolved.sources[key]}`;
+  }).join('\n');
+}
@@ -1,104 +1,176 @@
-import { Ollama } from 'ollama';
-import { GenerateResponse } from 'ollama/src/interfaces.js';
-import { LlmReply } from '../prompt/schema.js';
+import { LlmReply, TestStyle } from '../prompt/schema.js';
+import { validateReply, formatDiagnostics, ReplyDiagnostic } from '../prompt/validate.js';
+import { createProvider, LlmOptions, LlmProvider } from './provider.js';
+import { withRecording } from './replay.js';
 import yaml from 'js-yaml';
 import chalk from 'chalk';
+import { log } from '../utils/logger.js';
 
-// Initialize Ollama instance with the specific host
-const ollama = new Ollama({ host: 'http://localhost:11434' });
+// Active provider; replaced by configureLlm() from the CLI
+let provider: LlmProvider = createProvider();
 
-export async function fetch(prompt: string, signal?: AbortSignal): Promise<LlmReply> {
-  console.log(chalk.blue('🤖 Initializing LLM request...'));
-  console.log(chalk.gray(`📝 Prompt length: ${prompt.length} characters`));
-  
-  // Create a promise that rejects when the signal is aborted
+/**
+ * Select the LLM backend used by fetch() and fetchRawText().
+ * @param opts   Provider kind, model and host (defaults per provider)
+ * @param record Optional directory where every reply is recorded for replay
+ */
+export function configureLlm(opts: LlmOptions, record?: string): LlmProvider {
+  provider = createProvider(opts);
+  if (record) provider = withRecording(provider, record);
+  return provider;
+}
+
+export function currentProvider(): LlmProvider {
+  return provider;
+}
+
+/**
+ * Send a prompt to the active provider, honouring the abort signal,
+ * and return the non-empty completion text.
+ */
+async function generate(prompt: string, signal?: AbortSignal): Promise<string> {
+  log.trace(chalk.gray(`📝 Prompt length: ${prompt.length} characters`));
+
+  // Create a promise that rejects when the signal is aborted; the listener
+  // only lives as long as this request
+  let onAbort: (() => void) | undefined;
   const abortPromise = new Promise<never>((_, reject) => {
-    if (signal) {
-      signal.addEventListener('abort', () => reject(new Error('Request aborted')));
-    }
+    if (!signal) return;
+    if (signal.aborted) return reject(new Error('Request aborted'));
+    onAbort = () => reject(new Error('Request aborted'));
+    signal.addEventListener('abort', onAbort, { once: true });
   });
 
-  console.log(chalk.blue('🚀 Sending request to Ollama...'));
-  // Create the Ollama request promise
-  const ollamaPromise = ollama.generate({
-    model: 'gemma:7b',
-    prompt: prompt,
-    stream: false
-  }) as Promise<GenerateResponse>;
-
-  // Race between the Ollama request and the abort signal
-  const ollamaResponse = await Promise.race([ollamaPromise, abortPromise]);
-  console.log(chalk.green('✅ Raw response received from Ollama'));
+  log.info(chalk.blue(`🚀 Sending request to ${provider.kind} (${provider.model} @ ${provider.host})...`));
+  let responseText: string;
+  try {
+    // Race between the provider request and the abort signal
+    responseText = await Promise.race([provider.generate(prompt, signal), abortPromise]);
+  } finally {
+    if (onAbort) signal!.removeEventListener('abort', onAbort);
+  }
+  log.debug(chalk.green(`✅ Raw response received from ${provider.kind}`));
 
-  // Extract the response content from the Ollama response
-  const responseText = ollamaResponse.response;
   if (!responseText) {
-    console.log(chalk.red('❌ No response content received from LLM'));
+    log.error(chalk.red('❌ No response content received from LLM'));
     throw new Error('No response content received from LLM');
   }
-  
-  console.log(chalk.gray(`📥 Response length: ${responseText.length} characters`));
 
-  console.log(chalk.blue('🔧 Processing response...'));
+  log.trace(chalk.gray(`📥 Response length: ${responseText.length} characters`));
+  return responseText;
+}
+
+/**
+ * Strip markdown fences, parse the YAML and validate it against the
+ * NewTestYaml schema.
+ * @returns The reply when valid, otherwise the diagnostics explaining why not
+ */
+function parseReply(responseText: string, styles?: readonly TestStyle[]): { reply?: LlmReply; diagnostics: ReplyDiagnostic[] } {
+  log.debug(chalk.blue('🔧 Processing response...'));
   // Remove markdown code block markers if present
   let yamlContent = responseText.trim();
   if (yamlContent.startsWith('```yaml')) {
     yamlContent = yamlContent.substring(7); // Remove ```yaml
-    console.log(chalk.gray('📝 Removed ```yaml markers'));
+    log.trace(chalk.gray('📝 Removed ```yaml markers'));
   }
   if (yamlContent.startsWith('```')) {
     yamlContent = yamlContent.substring(3); // Remove ```
-    console.log(chalk.gray('📝 Removed ``` markers'));
+    log.trace(chalk.gray('📝 Removed ``` markers'));
   }
   if (yamlContent.endsWith('```')) {
     yamlContent = yamlContent.substring(0, yamlContent.length - 3); // Remove ```
-    console.log(chalk.gray('📝 Removed trailing ``` markers'));
+    log.trace(chalk.gray('📝 Removed trailing ``` markers'));
   }
   
   yamlContent = yamlContent.trim();
 
-  console.log(chalk.blue('🔍 Parsing YAML content...'));
+  log.debug(chalk.blue('🔍 Parsing YAML content...'));
+  let parsed: unknown;
   try {
-    // Parse the YAML content
-    const parsed = yaml.load(yamlContent) as LlmReply;
-    // Validate that we have the expected structure
-    if (!parsed || typeof parsed !== 'object') {
-      console.log(chalk.red('❌ Parsed response is not an object'));
-      throw new Error('Parsed response is not an object');
-    }
-    
-    if (!parsed.tests || !Array.isArray(parsed.tests)) {
-      console.log(chalk.red('❌ Response does not contain tests array'));
-      throw new Error('Response does not contain tests array');
-    }
-
-    console.log(chalk.green(`✅ Found ${parsed.tests.length} test(s) in response`));
+    parsed = yaml.load(yamlContent);
+  } catch (error) {
+    return {
+      diagnostics: [{ path: '', message: `invalid YAML: ${error instanceof Error ? error.message : 'Unknown error'}` }]
+    };
+  }
 
-    console.log(chalk.blue('🔧 Processing includes field...'));
+  const tests = parsed && typeof parsed === 'object' ? (parsed as { tests?: unknown }).tests : undefined;
+  if (Array.isArray(tests)) {
+    log.debug(chalk.blue('🔧 Processing includes field...'));
     // Fix the includes field for each test - convert from YAML block scalar to array
-    for (const test of parsed.tests) {
+    for (const item of tests) {
+      if (!item || typeof item !== 'object') continue;
+      const test = item as Record<string, unknown>;
       if (test.includes && typeof test.includes === 'string') {
         // Parse the YAML block scalar string into an array
-        const includesString = test.includes as string;
-        const includesLines = includesString
+        const includesLines = test.includes
           .split('\n')
           .map((line: string) => line.trim())
           .filter((line: string) => line.startsWith('- '))
           .map((line: string) => line.substring(2).trim()); // Remove the "- " prefix
         
-        (test as any).includes = includesLines;
-        console.log(chalk.gray(`  📝 Processed includes for test "${test.name}": ${includesLines.length} items`));
+        test.includes = includesLines;
+        log.trace(chalk.gray(`  📝 Processed includes for test "${test.name}": ${includesLines.length} items`));
       } else if (!test.includes) {
-        (test as any).includes = [];
-        console.log(chalk.gray(`  📝 No includes for test "${test.name}"`));
+        test.includes = [];
+        log.trace(chalk.gray(`  📝 No includes for test "${test.name}"`));
       }
     }
+  }
+
+  log.debug(chalk.blue('🔍 Validating reply against schema...'));
+  const diagnostics = validateReply(parsed, styles);
+  if (diagnostics.length) return { diagnostics };
+
+  // No diagnostics: the schema check has established the shape
+  const reply = parsed as LlmReply;
+  log.info(chalk.green(`✅ Found ${reply.tests.length} valid test(s) in response`));
+  return { reply, diagnostics };
+}
+
+/**
+ * Ask the model to correct its own previous reply.
+ */
+function buildRepairPrompt(prompt: string, previous: string, diagnostics: ReplyDiagnostic[]): string {
+  return [
+    prompt.trimEnd(),
+    '=== YOUR PREVIOUS REPLY ===',
+    previous.trim(),
+    '=== PROBLEMS WITH YOUR PREVIOUS REPLY ===',
+    formatDiagnostics(diagnostics),
+    'Reply again with the complete, corrected YAML following OUTPUT_SPEC exactly. Output YAML only.',
+  ].join('\n\n') + '\n';
+}
+
+/**
+ * Request tests from the LLM and return a schema-valid reply.
+ * Invalid replies are sent back to the model together with the
+ * diagnostics, at most `maxRepairs` times.
+ * @param prompt     The generation prompt
+ * @param signal     AbortSignal for cancellation
+ * @param styles     Test styles the prompt allowed (all when omitted)
+ * @param maxRepairs Number of repair round-trips before giving up
+ */
+export async function fetch(prompt: string, signal?: AbortSignal, styles?: readonly TestStyle[], maxRepairs = 2): Promise<LlmReply> {
+  log.debug(chalk.blue('🤖 Initializing LLM request...'));
+  let currentPrompt = prompt;
+
+  for (let attempt = 0; ; attempt++) {
+    const responseText = await generate(currentPrompt, signal);
+    const { reply, diagnostics } = parseReply(responseText, styles);
+    if (reply) {
+      log.debug(chalk.green('✅ LLM response processed successfully'));
+      return reply;
+    }
 
-    console.log(chalk.green('✅ LLM response processed successfully'));
-    return parsed;
-  } catch (error) {
-    console.log(chalk.red('❌ Failed to parse LLM response'));
-    throw new Error(`Failed to parse LLM response as YAML: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    log.warn(chalk.red(`❌ LLM reply is invalid (${diagnostics.length} problem(s)):`));
+    diagnostics.forEach(d => log.warn(chalk.red(`   ${d.path ? `${d.path}: ` : ''}${d.message}`)));
+
+    if (attempt >= maxRepairs) {
+      throw new Error(`LLM reply failed validation after ${attempt + 1} attempt(s):\n${formatDiagnostics(diagnostics)}`);
+    }
+    log.info(chalk.blue(`🔁 Asking LLM to repair its reply (${attempt + 1}/${maxRepairs})...`));
+    currentPrompt = buildRepairPrompt(prompt, responseText, diagnostics);
   }
 }
 
@@ -109,54 +181,26 @@ export async function fetch(prompt: string, signal?: AbortSignal): Promise<LlmRe
  * @returns Raw text response
  */
 export async function fetchRawText(prompt: string, signal?: AbortSignal): Promise<string> {
-  console.log(chalk.blue('🤖 Initializing LLM request for raw text...'));
-  console.log(chalk.gray(`📝 Prompt length: ${prompt.length} characters`));
-  
-  // Create a promise that rejects when the signal is aborted
-  const abortPromise = new Promise<never>((_, reject) => {
-    if (signal) {
-      signal.addEventListener('abort', () => reject(new Error('Request aborted')));
-    }
-  });
-
-  console.log(chalk.blue('🚀 Sending request to Ollama...'));
-  // Create the Ollama request promise
-  const ollamaPromise = ollama.generate({
-    model: 'gemma:7b',
-    prompt: prompt,
-    stream: false
-  }) as Promise<GenerateResponse>;
-
-  // Race between the Ollama request and the abort signal
-  const ollamaResponse = await Promise.race([ollamaPromise, abortPromise]);
-  console.log(chalk.green('✅ Raw response received from Ollama'));
-
-  // Extract the response content from the Ollama response
-  const responseText = ollamaResponse.response;
-  if (!responseText) {
-    console.log(chalk.red('❌ No response content received from LLM'));
-    throw new Error('No response content received from LLM');
-  }
-  
-  console.log(chalk.gray(`📥 Response length: ${responseText.length} characters`));
+  log.debug(chalk.blue('🤖 Initializing LLM request for raw text...'));
+  const responseText = await generate(prompt, signal);
 
-  console.log(chalk.blue('🔧 Processing raw text response...'));
+  log.debug(chalk.blue('🔧 Processing raw text response...'));
   // Remove markdown code block markers if present
   let processedText = responseText.trim();
   if (processedText.startsWith('```cpp')) {
     processedText = processedText.substring(6); // Remove ```cpp
-    console.log(chalk.gray('📝 Removed ```cpp markers'));
+    log.trace(chalk.gray('📝 Removed ```cpp markers'));
   } else if (processedText.startsWith('```')) {
     processedText = processedText.substring(3); // Remove ```
-    console.log(chalk.gray('📝 Removed ``` markers'));
+    log.trace(chalk.gray('📝 Removed ``` markers'));
   }
   if (processedText.endsWith('```')) {
     processedText = processedText.substring(0, processedText.length - 3); // Remove ```
-    console.log(chalk.gray('📝 Removed trailing ``` markers'));
+    log.trace(chalk.gray('📝 Removed trailing ``` markers'));
   }
   
   processedText = processedText.trim();
 
-  console.log(chalk.green('✅ Raw text response processed successfully'));
+  log.debug(chalk.green('✅ Raw text response processed successfully'));
   return processedText;
 }
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { Ollama } from 'ollama';
+import { GenerateResponse } from 'ollama/src/interfaces.js';
+import { LlmProvider } from './provider.js';
+
+/**
+ * Local Ollama server (`ollama serve`).
+ */
+export class OllamaProvider implements LlmProvider {
+  readonly kind = 'ollama' as const;
+  private readonly client: Ollama;
+
+  constructor(readonly model: string, readonly host: string) {
+    this.client = new Ollama({ host });
+  }
+
+  async generate(prompt: string): Promise<string> {
+    const response = await this.client.generate({
+      model: this.model,
+      prompt: prompt,
+      stream: false
+    }) as GenerateResponse;
+    return response.response;
+  }
+}
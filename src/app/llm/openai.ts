@@ -0,0 +1,39 @@
+import axios from 'axios';
+import { LlmProvider } from './provider.js';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+/**
+ * Any server speaking the OpenAI chat-completions protocol
+ * (llama.cpp server, vLLM, LM Studio, ...).
+ * `host` may be given with or without the trailing `/v1`.
+ */
+export class OpenAiCompatProvider implements LlmProvider {
+  readonly kind = 'openai' as const;
+
+  constructor(readonly model: string, readonly host: string) {}
+
+  private get endpoint(): string {
+    const base = this.host.replace(/\/+$/, '');
+    return base.endsWith('/v1')
+      ? `${base}/chat/completions`
+      : `${base}/v1/chat/completions`;
+  }
+
+  async generate(prompt: string, signal?: AbortSignal): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (process.env.OPENAI_API_KEY) {
+      headers.Authorization = `Bearer ${process.env.OPENAI_API_KEY}`;
+    }
+
+    const { data } = await axios.post<ChatCompletionResponse>(this.endpoint, {
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      stream: false
+    }, { headers, signal });
+
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+}
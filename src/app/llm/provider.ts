@@ -0,0 +1,51 @@
+import { OllamaProvider } from './ollama.js';
+import { OpenAiCompatProvider } from './openai.js';
+import { ReplayProvider } from './replay.js';
+
+export type ProviderKind = 'ollama' | 'openai' | 'replay';
+
+export const PROVIDER_KINDS: ProviderKind[] = ['ollama', 'openai', 'replay'];
+
+/**
+ * A backend able to turn a prompt into a completion.
+ * Implementations only deal with transport; markdown stripping and
+ * YAML parsing stay in client.ts.
+ */
+export interface LlmProvider {
+  readonly kind: ProviderKind;
+  readonly model: string;
+  readonly host: string;
+  generate(prompt: string, signal?: AbortSignal): Promise<string>;
+}
+
+export interface LlmOptions {
+  provider?: ProviderKind;
+  model?: string;
+  host?: string;      // base URL for HTTP providers, recordings path for replay
+}
+
+const DEFAULTS: Record<ProviderKind, { model: string; host: string }> = {
+  ollama: { model: 'gemma:7b', host: 'http://localhost:11434' },
+  openai: { model: 'default',  host: 'http://localhost:8080'  },
+  replay: { model: 'replay',   host: '.llm-replay'            },
+};
+
+/**
+ * Build a provider from (possibly partial) CLI options, filling in
+ * per-provider defaults for model and host.
+ */
+export function createProvider(opts: LlmOptions = {}): LlmProvider {
+  const kind = opts.provider ?? 'ollama';
+  const defaults = DEFAULTS[kind];
+  if (!defaults) {
+    throw new Error(`Unknown LLM provider "${kind}" (expected one of: ${PROVIDER_KINDS.join(', ')})`);
+  }
+  const model = opts.model ?? defaults.model;
+  const host = opts.host ?? defaults.host;
+
+  switch (kind) {
+    case 'ollama': return new OllamaProvider(model, host);
+    case 'openai': return new OpenAiCompatProvider(model, host);
+    case 'replay': return new ReplayProvider(model, host);
+  }
+}
@@ -0,0 +1,57 @@
+import { createHash } from 'node:crypto';
+import { promises as fsp } from 'node:fs';
+import { existsSync, statSync } from 'node:fs';
+import path from 'node:path';
+import { LlmProvider } from './provider.js';
+
+/**
+ * Stable key for a prompt; recordings are stored as `<key>.txt`.
+ */
+export function promptKey(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+}
+
+/**
+ * Deterministic provider that answers from files on disk.
+ *  • `host` is a file      → every prompt gets that file's content.
+ *  • `host` is a directory → the reply is `<host>/<promptKey>.txt`.
+ * Useful for CI and for reproducing a bad generation offline.
+ */
+export class ReplayProvider implements LlmProvider {
+  readonly kind = 'replay' as const;
+
+  constructor(readonly model: string, readonly host: string) {}
+
+  async generate(prompt: string): Promise<string> {
+    if (!existsSync(this.host)) {
+      throw new Error(`Replay source not found: ${this.host}`);
+    }
+    if (statSync(this.host).isFile()) {
+      return fsp.readFile(this.host, 'utf8');
+    }
+
+    const recording = path.join(this.host, `${promptKey(prompt)}.txt`);
+    if (!existsSync(recording)) {
+      throw new Error(`No recorded reply for prompt ${promptKey(prompt)} in ${this.host}`);
+    }
+    return fsp.readFile(recording, 'utf8');
+  }
+}
+
+/**
+ * Wrap a provider so that every reply is saved in a layout the
+ * ReplayProvider can read back.
+ */
+export function withRecording(inner: LlmProvider, dir: string): LlmProvider {
+  return {
+    kind: inner.kind,
+    model: inner.model,
+    host: inner.host,
+    async generate(prompt: string, signal?: AbortSignal): Promise<string> {
+      const reply = await inner.generate(prompt, signal);
+      await fsp.mkdir(dir, { recursive: true });
+      await fsp.writeFile(path.join(dir, `${promptKey(prompt)}.txt`), reply, 'utf8');
+      return reply;
+    }
+  };
+}
@@ -1,8 +1,10 @@
 import dedent from 'dedent';
 import { assemble, PromptParts } from './parts.js';
 import { defaultMiddleware, BuildCtx, Middleware } from './middleware.js';
+import { FRAMEWORKS } from '../compiler/framework.js';
 import path from 'node:path';
 import chalk from 'chalk';
+import { log } from '../utils/logger.js';
 
 export interface BuildOpts {
   srcPath     : string;
@@ -11,10 +13,18 @@ export interface BuildOpts {
   testText?   : string;
   testPath?   : string;
   root?       : string;
+  ctx?        : Partial<BuildCtx>;  // e.g. lines missed by the last coverage run
+  trace?      : MiddlewareTrace[];  // filled with what each middleware changed
+}
+
+export interface MiddlewareTrace {
+  label: string;
+  changes: { section: keyof PromptParts; before: number; after: number }[];  // lengths in characters
+  replacedBy?: string;   // a default middleware that did not run
 }
 
 export function buildPrompt(opts: BuildOpts): string {
-  console.log(chalk.gray('  🔨 Building prompt for LLM...'));
+  log.debug(chalk.gray('  🔨 Building prompt for LLM...'));
   
   /* 1️⃣ core parts (plain, unmodified) */
 
@@ -24,9 +34,9 @@ export function buildPrompt(opts: BuildOpts): string {
   : 'No existing test file provided.';
 
   if (opts.testText && opts.testText.trim() !== '') {
-    console.log(chalk.gray(`  📝 Using existing test content (${opts.testText.length} characters)`));
+    log.debug(chalk.gray(`  📝 Using existing test content (${opts.testText.length} characters)`));
   } else {
-    console.log(chalk.gray('  📝 No existing test content provided'));
+    log.debug(chalk.gray('  📝 No existing test content provided'));
   }
 
   // Calculate relative paths
@@ -34,8 +44,17 @@ export function buildPrompt(opts: BuildOpts): string {
   const srcRelativePath = path.relative(root, opts.srcPath);
   const testRelativePath = opts.testPath ? path.relative(root, opts.testPath) : 'No test file specified';
   
-  console.log(chalk.gray(`  📁 Source path: ${srcRelativePath}`));
-  console.log(chalk.gray(`  📁 Test path: ${testRelativePath}`));
+  log.debug(chalk.gray(`  📁 Source path: ${srcRelativePath}`));
+  log.debug(chalk.gray(`  📁 Test path: ${testRelativePath}`));
+
+  const ctx: BuildCtx = {
+    missed: [],
+    prevFailures: [],
+    styles: ['plain'],
+    framework: 'gtest',
+    ...opts.ctx
+  };
+  const fw = FRAMEWORKS[ctx.framework];
 
   const parts: PromptParts = {
     header: dedent`
@@ -57,40 +76,50 @@ export function buildPrompt(opts: BuildOpts): string {
           goal: |
             Short behaviour description.
           includes: |
-            - <gtest/gtest.h>
+            - ${fw.include}
             - "foo.h"
             - any other libraries needed
           code: |
-            TEST(Foo, DoesX) { … }
+            ${fw.prompt.example('CamelCaseName123')}
         - name: CamelCaseName456
           goal: |
             Short behaviour description.
           includes: |
-            - <gtest/gtest.h>
+            - ${fw.include}
             - "foo.h"
             - any other libraries needed
           code: |
-            TEST(Foo, DoesX) { … }
+            ${fw.prompt.example('CamelCaseName456')}
     `,
   };
 
-  console.log(chalk.gray('  📋 Assembled prompt parts'));
+  log.trace(chalk.gray('  📋 Assembled prompt parts'));
 
   /* 2️⃣ apply middleware chain */
-  console.log(chalk.gray('  🔧 Applying middleware chain...'));
-  const ctx: BuildCtx = {
-    missed: [],
-    prevFailures: []
-  };
-  const allMw = [...defaultMiddleware, ...(opts.middlewares || [])];
-  console.log(chalk.gray(`  📝 Applying ${allMw.length} middleware(s)`));
+  log.trace(chalk.gray('  🔧 Applying middleware chain...'));
+  const userMw = opts.middlewares || [];
+  const replaced = new Set(userMw.map(mw => mw.replaces).filter(Boolean));
+  const allMw = [...defaultMiddleware.filter(mw => !replaced.has(mw.label)), ...userMw];
+  for (const mw of defaultMiddleware.filter(mw => replaced.has(mw.label))) {
+    opts.trace?.push({ label: mw.label!, changes: [], replacedBy: userMw.find(u => u.replaces === mw.label)!.label });
+  }
+  log.trace(chalk.gray(`  📝 Applying ${allMw.length} middleware(s)`));
   
-  const finalParts = allMw.reduce((acc, mw) => mw(acc, ctx), parts);
+  const finalParts = allMw.reduce((acc, mw) => {
+    const next = mw(acc, ctx);
+    opts.trace?.push({
+      label: mw.label || mw.name || 'anonymous',
+      changes: (Object.keys(acc) as (keyof PromptParts)[])
+        .filter(section => next[section] !== acc[section])
+        .map(section => ({ section, before: acc[section].length, after: next[section].length }))
+    });
+    return next;
+  }, parts);
 
-  console.log(chalk.gray('  🔧 Assembling final prompt...'));
+  log.trace(chalk.gray('  🔧 Assembling final prompt...'));
   const prompt = assemble(finalParts);
   
-  console.log(chalk.gray(`  ✅ Prompt built successfully (${prompt.length} characters)`));
+  log.debug(chalk.gray(`  ✅ Prompt built successfully (${prompt.length} characters)`));
   return prompt;
 }
 
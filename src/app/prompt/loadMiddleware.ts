@@ -0,0 +1,98 @@
+import { promises as fsp } from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import yaml from 'js-yaml';
+import { PromptParts } from './parts.js';
+import { Middleware, named } from './middleware.js';
+
+const MODULE_EXTENSIONS = ['.js', '.mjs', '.cjs', '.ts', '.mts'];
+const FRAGMENT_EXTENSIONS = ['.yaml', '.yml', '.md', '.txt'];
+const SECTIONS: (keyof PromptParts)[] = ['header', 'source', 'existing', 'footer'];
+const POSITIONS = ['append', 'prepend', 'replace'] as const;
+
+/* Declarative prompt fragment (.yaml); .md/.txt files are `text` appended to the header */
+interface Fragment {
+  text: string;
+  section?: keyof PromptParts;          // default: header
+  position?: typeof POSITIONS[number];  // default: append
+  replaces?: string;                    // e.g. "goals" drops the built-in goals block
+}
+
+/**
+ * Files of a directory entry in name order, so `10-goals.yaml` runs
+ * before `20-style.md`.
+ */
+async function expand(entry: string): Promise<string[]> {
+  const stat = await fsp.stat(entry).catch(() => undefined);
+  if (!stat) throw new Error(`Prompt middleware not found: ${entry}`);
+  if (!stat.isDirectory()) return [entry];
+  const names = (await fsp.readdir(entry))
+    .filter(n => [...MODULE_EXTENSIONS, ...FRAGMENT_EXTENSIONS].includes(path.extname(n)))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  return names.map(n => path.join(entry, n));
+}
+
+function fragmentMiddleware(label: string, f: Fragment): Middleware {
+  const section = f.section ?? 'header';
+  const position = f.position ?? 'append';
+  return named(label, (parts) => {
+    const current = parts[section];
+    const text = position === 'replace' ? f.text
+      : position === 'prepend' ? `${f.text}\n${current}`
+      : `${current}\n${f.text}`;
+    return { ...parts, [section]: text };
+  }, f.replaces);
+}
+
+async function loadFragment(file: string, label: string): Promise<Middleware> {
+  const raw = await fsp.readFile(file, 'utf8');
+  if (!['.yaml', '.yml'].includes(path.extname(file))) return fragmentMiddleware(label, { text: raw.trimEnd() });
+
+  const f = yaml.load(raw) as Partial<Fragment> | null;
+  if (!f || typeof f !== 'object' || typeof f.text !== 'string') {
+    throw new Error(`${file}: a prompt fragment needs a "text" string`);
+  }
+  if (f.section !== undefined && !SECTIONS.includes(f.section)) {
+    throw new Error(`${file}: "section" must be one of ${SECTIONS.join(', ')}`);
+  }
+  if (f.position !== undefined && !POSITIONS.includes(f.position)) {
+    throw new Error(`${file}: "position" must be one of ${POSITIONS.join(', ')}`);
+  }
+  return fragmentMiddleware(label, { ...f, text: f.text.trimEnd() } as Fragment);
+}
+
+/**
+ * A module's default export: one middleware or a list of them. A named
+ * `replaces` export applies to all of them.
+ */
+async function loadModule(file: string, label: string): Promise<Middleware[]> {
+  const mod = await import(pathToFileURL(file).href);
+  const exported = mod.default ?? mod.middleware;
+  const list: unknown[] = Array.isArray(exported) ? exported : [exported];
+  if (!list.length || list.some(mw => typeof mw !== 'function')) {
+    throw new Error(`${file}: default export must be a middleware function or an array of them`);
+  }
+  return (list as Middleware[]).map((mw, i) => named(
+    mw.label || (list.length > 1 ? `${label}#${i + 1}` : label),
+    mw,
+    mw.replaces ?? mod.replaces
+  ));
+}
+
+/**
+ * Load the project's prompt middleware (`prompt.middlewares` in
+ * .cpptestgen.yaml): modules, declarative fragments, or directories of
+ * them, in the order given.
+ * @param root Directory the entries are relative to
+ */
+export async function loadMiddlewares(root: string, entries: string[]): Promise<Middleware[]> {
+  const out: Middleware[] = [];
+  for (const entry of entries) {
+    for (const file of await expand(path.resolve(root, entry))) {
+      const label = path.relative(root, file).split(path.sep).join('/');
+      if (MODULE_EXTENSIONS.includes(path.extname(file))) out.push(...await loadModule(file, label));
+      else out.push(await loadFragment(file, label));
+    }
+  }
+  return out;
+}
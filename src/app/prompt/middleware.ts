@@ -1,47 +1,96 @@
 import { PromptParts } from './parts.js';
+import { ApiModel, renderApiSummary } from '../analysis/apiModel.js';
+import { TestStyle } from './schema.js';
+import { FrameworkKind, FRAMEWORKS } from '../compiler/framework.js';
+
+/* A generated test that failed validation in an earlier round */
+export interface FailedCandidate {
+  name: string;
+  code: string;
+  errors: string[];      // compiler errors and assertion failures, one per entry
+}
 
 /* Extend or replace in user-land */
 export interface BuildCtx {
   missed: number[];
-  prevFailures: string[];
+  prevFailures: FailedCandidate[];
+  styles: TestStyle[];   // test styles besides plain TEST the LLM may use
+  mocks?: MockContext;   // generated GoogleMock classes the tests may use
+  framework: FrameworkKind; // what the tests are written with
+  revise?: Revision;     // one generated test to rewrite as a reviewer asked
 }
 
-export type Middleware = (parts: PromptParts, ctx: BuildCtx) => PromptParts;
+/* A generated test sent back by `run --interactive` with the reviewer's comment */
+export interface Revision {
+  name: string;
+  code: string;
+  comment: string;
+}
+
+/* GoogleMock classes generated for the dependencies of the code under test */
+export interface MockContext {
+  include: string;       // mocks header as the test includes it, e.g. "mocks.h"
+  classes: string[];     // class definitions
+}
+
+export type Middleware = ((parts: PromptParts, ctx: BuildCtx) => PromptParts) & {
+  label?: string;        // shown by `prompt --explain`; defaults to the function name
+  replaces?: string;     // label of a default middleware this one takes the place of
+};
+
+/**
+ * Attach a label (and optionally the default it replaces) to a middleware.
+ */
+export function named(label: string, mw: Middleware, replaces?: string): Middleware {
+  return Object.assign(mw, { label, replaces });
+}
+
+/* What each opt-in test style allows, and what stays forbidden without it */
+const STYLE_RULES: Record<Exclude<TestStyle, 'plain'>, { allowed: string; forbidden: string }> = {
+  fixture      : { allowed: 'TEST_F(Fixture, TestName) blocks, the fixture class in `fixture`.', forbidden: 'fixtures (TEST_F)' },
+  parameterized: { allowed: 'TEST_P(Fixture, TestName) blocks, INSTANTIATE_TEST_SUITE_P in `params`.', forbidden: 'parameterised tests (TEST_P)' },
+  typed        : { allowed: 'TYPED_TEST(Fixture, TestName) blocks, TYPED_TEST_SUITE in `params`.', forbidden: 'typed tests (TYPED_TEST)' },
+};
 
 function injectGoalsConstraints(parts: PromptParts, ctx: BuildCtx): PromptParts {
+  const fw = FRAMEWORKS[ctx.framework];
+  // Test styles are Google Test constructs; other frameworks stick to plain test cases
+  const styles = fw.prompt.forbidden ? [] : Object.entries(STYLE_RULES);
+  const allowed = styles.filter(([s]) => ctx.styles.includes(s as TestStyle)).map(([, r]) => `\n        • ${r.allowed}`);
+  const forbidden = fw.prompt.forbidden ? [fw.prompt.forbidden] : styles.filter(([s]) => !ctx.styles.includes(s as TestStyle)).map(([, r]) => r.forbidden);
+  if (ctx.mocks) allowed.push(`\n        • #include "${ctx.mocks.include}" and its mock classes with EXPECT_CALL / ON_CALL.`);
   const goals = `
     GOALS:
       1. Generate comprehensive unit tests for the C++ source code provided below.
-      2. Produce valid, modern C++17 Google Test code that is well-structured and easy to understand.
-      3. The tests should be self-contained and not require any external dependencies beyond the standard library and Google Test.
+      2. Produce valid, modern C++17 ${fw.label} code that is well-structured and easy to understand.
+      3. The tests should be self-contained and not require any external dependencies beyond the standard library and ${fw.label}.
       4. Each test should be in entirety
       5. The test file must compile
 
     CONSTRAINTS:
       - Allowed content in each test file:
-        • #include <gtest/gtest.h>
+        • #include ${fw.include}
         • #include "<header(s)_under_test>"
-        • One or more TEST(SuiteName, TestName) blocks.
-        • Built-in ASSERT_/EXPECT_ macros inline.
+        • One or more ${fw.prompt.block} blocks.${allowed.join('')}
+        • Built-in ${fw.prompt.assertions} macros inline.
       - DO NOT add:
         • using directives or declarations
         • helper functions, lambdas, custom matchers
-        • fixtures (TEST_F), parameterised/typed tests
-        • custom main(), mocks, global environments
-        • do not use any mocking
-        • do not use any non-standard headers
+${forbidden.length ? `        • ${forbidden.join(', ')}\n` : ''}        • custom main(), ${ctx.mocks ? 'mock classes of your own' : 'mocks'}, global environments
+${ctx.mocks ? '' : '        • do not use any mocking\n'}        • do not use any non-standard headers
       - Reply in strict YAML format as per OUTPUT spec.
-      - Use only the C++17 standard library and the Google Test framework.
+      - Use only the C++17 standard library and the ${fw.label} framework.
       - Adhere to Google's C++ Style Guide for the generated test code.
       - Do not use any mock objects unless explicitly requested.
       - Two tests name can never be same
       - Use Different test name that does not exists in the test file
       - only new test will be created, don't modify tests
       - create multiple tests and give the output in the format specified below. 
-      - each element in the output yaml array should contain a single TEST block in code section
+      - each element in the output yaml array should contain a single ${fw.prompt.macro} block in code section
+      - the name field must be a valid C++ identifier equal to the ${fw.prompt.nameArg} of that ${fw.prompt.macro} block
 
     TESTING GUIDELINES:
-      - For each function or method, create a separate \`TEST\` or \`TEST_F\`
+      - For each function or method, create a separate ${fw.prompt.perFunction}
       - Test for a variety of input values, including:
       - Typical use cases.
       - Edge cases (e.g., empty strings, zero values, null pointers, large numbers).
@@ -49,11 +98,183 @@ function injectGoalsConstraints(parts: PromptParts, ctx: BuildCtx): PromptParts
       - Use descriptive names for your test cases and individual tests that clearly indicate their purpose.
       - Employ a clear "Arrange, Act, Assert" pattern within each test.
       - Use the AAA style but fill each section with concrete code.  
-      - Use appropriate Google Test matchers to make the assertions expressive (e.g., \`ASSERT_EQ\`, \`EXPECT_TRUE\`, \`ASSERT_THROW\`).
+      - Use appropriate ${fw.prompt.hint}.
   `;
   return { ...parts, header: parts.header + goals };
 }
 
+/**
+ * Project-specific constraints (from .cpptestgen.yaml `prompt.constraints`)
+ * appended after the default goals block.
+ */
+export function projectConstraints(lines: string[]): Middleware {
+  return named('projectConstraints', (parts) => {
+    if (!lines.length) return parts;
+    const block = `
+    PROJECT CONSTRAINTS:
+${lines.map(l => `      - ${l}`).join('\n')}
+  `;
+    return { ...parts, header: parts.header + block };
+  });
+}
+
+/**
+ * Concise listing of the API under test appended to the source part,
+ * so signatures, access levels and thrown exceptions are spelled out.
+ */
+export function apiSummary(model: ApiModel): Middleware {
+  return named('apiSummary', (parts) => {
+    const summary = renderApiSummary(model);
+    if (!summary) return parts;
+    return { ...parts, source: `${parts.source}\n=== API SUMMARY (${model.extractor}) ===\n${summary}\n` };
+  });
+}
+
+/**
+ * Source lines no test has executed yet (`ctx.missed`, from a coverage
+ * run), grouped into regions so the next tests can target them.
+ */
+export function coverageGaps(srcText: string, maxRegions = 30): Middleware {
+  return named('coverageGaps', (parts, ctx) => {
+    if (!ctx.missed.length) return parts;
+    const src = srcText.split('\n');
+    const regions: [number, number][] = [];
+    for (const n of [...new Set(ctx.missed)].sort((a, b) => a - b)) {
+      const last = regions[regions.length - 1];
+      if (last && n - last[1] <= 2) last[1] = n;
+      else regions.push([n, n]);
+    }
+    const shown = regions.slice(0, maxRegions).map(([from, to]) =>
+      src.slice(from - 1, to).map((text, i) => `  ${String(from + i).padStart(4)}| ${text}`).join('\n'));
+    const more = regions.length > maxRegions ? `\n  ... ${regions.length - maxRegions} more region(s)` : '';
+    const block = `=== NOT COVERED BY EXISTING TESTS ===
+Write tests that execute these lines and take the branches on them:
+${shown.join('\n  ...\n')}${more}
+`;
+    return { ...parts, source: `${parts.source}\n${block}` };
+  });
+}
+
+/**
+ * Tests from earlier rounds that did not compile or pass, with the
+ * reason, so the next round does not repeat them.
+ */
+function injectPrevFailures(parts: PromptParts, ctx: BuildCtx): PromptParts {
+  if (!ctx.prevFailures.length) return parts;
+  const shown = ctx.prevFailures.slice(-8).map(f => {
+    const errors = f.errors.slice(0, 8).map(e => `  ${e}`).join('\n') || '  (no details)';
+    return `--- ${f.name} ---\n${f.code.trim()}\nFailed with:\n${errors}`;
+  });
+  const block = `=== PREVIOUS ATTEMPTS THAT FAILED ===
+These tests were already generated and rejected. Do not repeat their mistakes;
+write a replacement for each that compiles and passes, under the same name.
+${shown.join('\n')}`;
+  return { ...parts, existing: `${parts.existing}\n\n${block}` };
+}
+
+/**
+ * A single test to rewrite (`ctx.revise`): the reply must hold only that
+ * test, changed as the reviewer's comment asks.
+ */
+function injectRevision(parts: PromptParts, ctx: BuildCtx): PromptParts {
+  if (!ctx.revise) return parts;
+  const block = `=== REVISE ONE TEST ===
+A reviewer looked at this generated test and asked for changes. Reply with exactly
+one test, named "${ctx.revise.name}", rewritten as the comment asks; write no other test.
+--- ${ctx.revise.name} ---
+${ctx.revise.code.trim()}
+Reviewer's comment: ${ctx.revise.comment}`;
+  return { ...parts, existing: `${parts.existing}\n\n${block}` };
+}
+
+/**
+ * How to write the opt-in test styles (`ctx.styles`), with an example
+ * reply per style; nothing for plain TEST only or other frameworks.
+ */
+function injectTestStyles(parts: PromptParts, ctx: BuildCtx): PromptParts {
+  const styles = ctx.styles.filter((s): s is Exclude<TestStyle, 'plain'> => s in STYLE_RULES);
+  if (!styles.length || ctx.framework !== 'gtest') return parts;
+  const rules = `
+    TEST STYLES (${styles.join(', ')}):
+      - Use a fixture when several tests need the same object set up; plain TEST otherwise.
+      - Put the fixture class definition in \`fixture\`, not in \`code\`. Give every test using it the same definition.
+      - If CURRENT_TEST_FILE already defines the fixture, use it; members you add to it are merged in.
+      - Helper methods and members inside the fixture class are allowed.${styles.includes('parameterized') ? `
+      - Put INSTANTIATE_TEST_SUITE_P in \`params\`; one that CURRENT_TEST_FILE already has is kept.` : ''}${styles.includes('typed') ? `
+      - Put the ::testing::Types alias and TYPED_TEST_SUITE in \`params\`.` : ''}
+  `;
+  const examples: Record<Exclude<TestStyle, 'plain'>, string> = {
+    fixture: `
+  - name: PushIncreasesSize
+    goal: |
+      Pushing onto an empty stack makes its size 1.
+    includes: |
+      - <gtest/gtest.h>
+      - "stack.h"
+    fixture: |
+      class StackTest : public ::testing::Test {
+       protected:
+        Stack stack_;
+      };
+    code: |
+      TEST_F(StackTest, PushIncreasesSize) { … }`,
+    parameterized: `
+  - name: ParsesDigits
+    goal: |
+      Every single digit string parses to its value.
+    includes: |
+      - <gtest/gtest.h>
+      - "parse.h"
+    fixture: |
+      class ParseTest : public ::testing::TestWithParam<int> {};
+    params: |
+      INSTANTIATE_TEST_SUITE_P(Digits, ParseTest, ::testing::Range(0, 10));
+    code: |
+      TEST_P(ParseTest, ParsesDigits) { … }`,
+    typed: `
+  - name: StartsEmpty
+    goal: |
+      A new queue of any element type is empty.
+    includes: |
+      - <gtest/gtest.h>
+      - "queue.h"
+    fixture: |
+      template <typename T>
+      class QueueTest : public ::testing::Test {};
+    params: |
+      using QueueTypes = ::testing::Types<int, double>;
+      TYPED_TEST_SUITE(QueueTest, QueueTypes);
+    code: |
+      TYPED_TEST(QueueTest, StartsEmpty) { … }`,
+  };
+  const spec = `
+=== OUTPUT_SPEC: OPTIONAL FIELDS ===
+fixture and params are optional per test. For example:
+tests:${styles.map(s => examples[s]).join('')}
+`;
+  return { ...parts, header: parts.header + rules, footer: parts.footer + spec };
+}
+
+/**
+ * The generated mocks (`ctx.mocks`) and how to use them, after the
+ * source so the interfaces they implement are already shown.
+ */
+function injectMocks(parts: PromptParts, ctx: BuildCtx): PromptParts {
+  if (!ctx.mocks?.classes.length) return parts;
+  const block = `=== GENERATED MOCKS ("${ctx.mocks.include}") ===
+Dependencies of the code under test have GoogleMock classes in "${ctx.mocks.include}".
+List "${ctx.mocks.include}" in includes, pass a mock where the code takes the dependency
+(by reference, pointer or smart pointer) and set expectations with EXPECT_CALL / ON_CALL
+before acting. Use ::testing::NiceMock for dependencies the test does not check.
+${ctx.mocks.classes.join('\n\n')}
+`;
+  return { ...parts, source: `${parts.source}\n${block}` };
+}
+
 export const defaultMiddleware: Middleware[] = [
-  injectGoalsConstraints,
+  named('goals', injectGoalsConstraints),
+  named('testStyles', injectTestStyles),
+  named('prevFailures', injectPrevFailures),
+  named('revise', injectRevision),
+  named('mocks', injectMocks),
 ];
@@ -1,8 +1,14 @@
+/* Kinds of Google Test blocks the LLM may write; `plain` is TEST only */
+export const TEST_STYLES = ['plain', 'fixture', 'parameterized', 'typed'] as const;
+export type TestStyle = typeof TEST_STYLES[number];
+
 export interface NewTestYaml {
     name: string;
     goal: string;
     code: string;
     includes: string[];
+    fixture?: string;   // fixture class used by TEST_F / TEST_P / TYPED_TEST
+    params?: string;    // INSTANTIATE_TEST_SUITE_P(...) or the TYPED_TEST_SUITE(...) type list
 }
 
 export interface LlmReply {
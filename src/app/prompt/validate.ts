@@ -0,0 +1,134 @@
+import { LlmReply, TestStyle } from './schema.js';
+import { findClassDefinitions, scanInstantiations } from '../utils/testBlocks.js';
+
+export interface ReplyDiagnostic {
+  path: string;      // e.g. "tests[2].code"
+  message: string;
+}
+
+const IDENTIFIER_RX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const TEST_BLOCK_RX = /\b(TEST|TEST_F|TEST_P|TYPED_TEST|TYPED_TEST_P)\s*\(\s*([A-Za-z_]\w*)\s*,\s*([A-Za-z_]\w*)\s*\)/g;
+const TEST_CASE_RX = /\b(TEST_CASE|TEST_CASE_METHOD|TEST_CASE_FIXTURE|TEMPLATE_TEST_CASE|TEST_CASE_TEMPLATE|SCENARIO)\s*\(\s*(?:[A-Za-z_][\w:]*\s*,\s*)?"((?:[^"\\\n]|\\.)*)"/g;
+const INCLUDE_RX = /^(#\s*include\s+)?(<[^<>"\s]+>|"[^"<>]+")$/;
+
+/**
+ * Find every TEST / TEST_F / TEST_P / TYPED_TEST header in a piece of code,
+ * and Catch2 / doctest TEST_CASE headers (with an empty suite).
+ */
+export function findTestBlocks(code: string): { macro: string; suite: string; name: string }[] {
+  return [
+    ...[...code.matchAll(TEST_BLOCK_RX)].map(m => ({ at: m.index!, macro: m[1], suite: m[2], name: m[3] })),
+    ...[...code.matchAll(TEST_CASE_RX)].map(m => ({ at: m.index!, macro: m[1], suite: '', name: m[2] })),
+  ].sort((a, b) => a.at - b.at).map(({ macro, suite, name }) => ({ macro, suite, name }));
+}
+
+// Test style each Google Test macro needs enabled; TEST is always allowed
+const MACRO_STYLES: Record<string, TestStyle> = {
+  TEST_F: 'fixture',
+  TEST_P: 'parameterized',
+  TYPED_TEST: 'typed',
+  TYPED_TEST_P: 'typed',
+};
+
+function describeBlock(b: { macro: string; suite: string; name: string }): string {
+  return b.suite ? `${b.macro}(${b.suite}, ${b.name})` : `${b.macro}("${b.name}")`;
+}
+
+function validateTest(test: unknown, at: string, styles?: readonly TestStyle[]): ReplyDiagnostic[] {
+  const out: ReplyDiagnostic[] = [];
+  if (!test || typeof test !== 'object' || Array.isArray(test)) {
+    return [{ path: at, message: 'must be a mapping with name, goal, includes and code' }];
+  }
+  const t = test as Record<string, unknown>;
+
+  if (typeof t.name !== 'string' || !t.name.trim()) {
+    out.push({ path: `${at}.name`, message: 'is required and must be a string' });
+  } else if (!IDENTIFIER_RX.test(t.name)) {
+    out.push({ path: `${at}.name`, message: `"${t.name}" is not a valid C++ identifier` });
+  }
+
+  if (typeof t.goal !== 'string' || !t.goal.trim()) {
+    out.push({ path: `${at}.goal`, message: 'is required and must be a string' });
+  }
+
+  if (typeof t.code !== 'string' || !t.code.trim()) {
+    out.push({ path: `${at}.code`, message: 'is required and must be a string' });
+  } else {
+    const blocks = findTestBlocks(t.code);
+    if (blocks.length !== 1) {
+      out.push({ path: `${at}.code`, message: `must contain exactly one TEST, TEST_F, TEST_P, TYPED_TEST or TEST_CASE block, found ${blocks.length}` });
+    } else if (typeof t.name === 'string' && blocks[0].name !== t.name) {
+      out.push({
+        path: `${at}.code`,
+        message: `${describeBlock(blocks[0])} does not match name "${t.name}"`
+      });
+    }
+    const style = blocks.length === 1 ? MACRO_STYLES[blocks[0].macro] : undefined;
+    if (style && styles && !styles.includes(style)) {
+      out.push({ path: `${at}.code`, message: `${blocks[0].macro} needs the "${style}" test style, which is not enabled; use TEST` });
+    }
+  }
+
+  // The fixture and instantiation must belong to the suite of the block
+  const suite = typeof t.code === 'string' ? findTestBlocks(t.code)[0]?.suite : undefined;
+  if (t.fixture !== undefined) {
+    if (typeof t.fixture !== 'string') {
+      out.push({ path: `${at}.fixture`, message: 'must be a string with the fixture class definition' });
+    } else if (suite && !findClassDefinitions(t.fixture).some(c => c.name === suite)) {
+      out.push({ path: `${at}.fixture`, message: `does not define the fixture class "${suite}"` });
+    }
+  }
+  if (t.params !== undefined) {
+    if (typeof t.params !== 'string') {
+      out.push({ path: `${at}.params`, message: 'must be a string with INSTANTIATE_TEST_SUITE_P or TYPED_TEST_SUITE' });
+    } else if (suite && !scanInstantiations(t.params).some(i => i.suite === suite)) {
+      out.push({ path: `${at}.params`, message: `does not instantiate "${suite}" with INSTANTIATE_TEST_SUITE_P or TYPED_TEST_SUITE` });
+    }
+  }
+
+  if (t.includes !== undefined) {
+    if (!Array.isArray(t.includes)) {
+      out.push({ path: `${at}.includes`, message: 'must be a list of include paths' });
+    } else {
+      t.includes.forEach((inc, j) => {
+        if (typeof inc !== 'string' || !INCLUDE_RX.test(inc.trim())) {
+          out.push({ path: `${at}.includes[${j}]`, message: `malformed include ${JSON.stringify(inc)}, expected "file.h" or <file.h>` });
+        }
+      });
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Check a parsed YAML reply against the NewTestYaml schema.
+ * @param styles Test styles the prompt allowed; other TEST_F / TEST_P /
+ *   TYPED_TEST blocks are rejected. All are allowed when omitted.
+ * @returns Empty array when the reply is usable
+ */
+export function validateReply(parsed: unknown, styles?: readonly TestStyle[]): ReplyDiagnostic[] {
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return [{ path: '', message: 'reply must be a YAML mapping with a "tests" list' }];
+  }
+  const tests = (parsed as Partial<LlmReply>).tests;
+  if (!Array.isArray(tests)) {
+    return [{ path: 'tests', message: 'is required and must be a list' }];
+  }
+
+  const out = tests.flatMap((t, i) => validateTest(t, `tests[${i}]`, styles));
+
+  const seen = new Set<string>();
+  tests.forEach((t, i) => {
+    const name = (t as { name?: unknown })?.name;
+    if (typeof name !== 'string') return;
+    if (seen.has(name)) out.push({ path: `tests[${i}].name`, message: `duplicate test name "${name}"` });
+    seen.add(name);
+  });
+
+  return out;
+}
+
+export function formatDiagnostics(diags: ReplyDiagnostic[]): string {
+  return diags.map(d => `- ${d.path ? `${d.path}: ` : ''}${d.message}`).join('\n');
+}
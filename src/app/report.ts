@@ -0,0 +1,177 @@
+import { promises as fsp } from 'node:fs';
+import path from 'node:path';
+import { TestResult } from './utils/applyAndValidateTests.js';
+import { NewTestYaml } from './prompt/schema.js';
+import { Diagnostic } from './compiler/diagnostics.js';
+import { TestFailure } from './compiler/gtestResults.js';
+import { CoverageReport, formatCoverage } from './compiler/coverage.js';
+
+/* One generated test as the CI dashboard sees it */
+export interface TestReport {
+  name: string;
+  goal?: string;
+  code?: string;
+  verdict: string;               // pass / fail / rejected / skipped
+  round: number;                 // the prompt it came from, see RunReport.rounds
+  validated: boolean;            // built and run, not just written
+  fixed: boolean;
+  fixAttempts: number;
+  isolated?: string;
+  regression?: string;
+  review?: string;
+  diagnostics: Pick<Diagnostic, 'file' | 'line' | 'column' | 'severity' | 'message'>[];
+  failures: TestFailure[];
+}
+
+/* One prompt → reply → apply cycle */
+export interface RoundReport {
+  round: number;
+  promptHash: string;            // the key replay recordings are stored under
+  llmMs: number;
+  applyMs: number;               // applying, validating and fixing the tests
+  tests: number;
+}
+
+/* Everything `run` did for one source file */
+export interface RunReport {
+  source: string;
+  testFile: string;
+  framework: string;
+  model: { provider: string; name: string };
+  startedAt: string;             // ISO timestamp
+  durationMs: number;
+  rounds: RoundReport[];
+  tests: TestReport[];
+  preexistingFailures: string[];
+  coverage?: { before?: CoverageReport; after?: CoverageReport };
+  error?: string;                // set when the run stopped with an error
+}
+
+/* Where `--report` and `--junit` write to */
+export interface ReportFiles {
+  json?: string;
+  junit?: string;
+}
+
+/**
+ * The report entry of a test: its result, plus goal and code from the
+ * reply it came from when the result does not carry them.
+ */
+export function testReport(result: TestResult, test: NewTestYaml | undefined, round: number): TestReport {
+  return {
+    name: result.name,
+    goal: result.goal ?? test?.goal,
+    code: result.code ?? test?.code,
+    verdict: result.verdict,
+    round,
+    validated: result.isolated !== undefined,
+    fixed: !!result.fixed,
+    fixAttempts: result.fixAttempts ?? 0,
+    isolated: result.isolated,
+    regression: result.regression,
+    review: result.review,
+    diagnostics: (result.diagnostics ?? []).map(({ file, line, column, severity, message }) => ({ file, line, column, severity, message })),
+    failures: result.failures ?? [],
+  };
+}
+
+const XML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', '\'': '&apos;' };
+
+function escapeXml(text: string): string {
+  // Control characters other than tab / newline are not allowed in XML 1.0
+  return text.replace(/[&<>"']/g, c => XML_ESCAPES[c]).replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '');
+}
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+function failureText(t: TestReport): string {
+  return [
+    ...t.diagnostics.filter(d => d.severity !== 'warning').map(d => `${d.file}:${d.line}: ${d.severity}: ${d.message}`),
+    ...t.failures.map(f => `${f.file ? `${f.file}:${f.line}: ` : ''}${f.message}`),
+  ].join('\n');
+}
+
+function testCase(t: TestReport, classname: string): string {
+  const open = `    <testcase classname="${escapeXml(classname)}" name="${escapeXml(t.name)}"`;
+  if (t.verdict === 'rejected') {
+    return `${open}>\n      <skipped message="rejected in review"/>\n    </testcase>`;
+  }
+  if (t.verdict === 'skipped') {
+    return `${open}>\n      <skipped message="already in the test file"/>\n    </testcase>`;
+  }
+  if (t.verdict !== 'pass') {
+    const message = t.diagnostics.length ? 'does not compile' : 'fails';
+    return `${open}>\n      <failure message="${message}">${escapeXml(failureText(t))}</failure>\n    </testcase>`;
+  }
+  if (t.regression === 'fail') {
+    return `${open}>\n      <failure message="passes alone, fails in full suite"/>\n    </testcase>`;
+  }
+  return `${open}/>`;
+}
+
+/* The run's own error, as a testcase since JUnit has no suite-level error */
+function errorCase(run: RunReport, classname: string): string {
+  const message = run.error!.split('\n')[0];
+  return `    <testcase classname="${escapeXml(classname)}" name="generation">\n` +
+    `      <error message="${escapeXml(message)}">${escapeXml(run.error!)}</error>\n    </testcase>`;
+}
+
+/**
+ * JUnit XML with one testsuite per source file and one testcase per
+ * generated test: failed ones carry their errors, rejected ones and
+ * duplicates of tests already in the file are skipped. A run that stopped
+ * with an error adds a `generation` testcase holding it.
+ */
+export function toJUnit(runs: RunReport[], root: string): string {
+  const suites = runs.map(run => {
+    const name = path.relative(root, run.source);
+    const failures = run.tests.filter(t => t.verdict === 'fail' || t.regression === 'fail').length;
+    const skipped = run.tests.filter(t => t.verdict === 'rejected' || t.verdict === 'skipped').length;
+    const errors = run.error ? 1 : 0;
+    const properties = [
+      ['testFile', path.relative(root, run.testFile)],
+      ['framework', run.framework],
+      ['model', `${run.model.provider}/${run.model.name}`],
+      ...run.rounds.map(r => [`round${r.round}.promptHash`, r.promptHash]),
+      ...(run.coverage ? [['coverage', `${formatCoverage(run.coverage.before)} -> ${formatCoverage(run.coverage.after)}`]] : []),
+    ].map(([k, v]) => `      <property name="${k}" value="${escapeXml(v)}"/>`);
+    return [
+      `  <testsuite name="${escapeXml(name)}" tests="${run.tests.length + errors}" failures="${failures}" errors="${errors}" skipped="${skipped}"` +
+        ` time="${seconds(run.durationMs)}" timestamp="${run.startedAt}">`,
+      '    <properties>',
+      ...properties.map(p => `  ${p}`),
+      '    </properties>',
+      ...run.tests.map(t => testCase(t, name)),
+      ...(run.error ? [errorCase(run, name)] : []),
+      '  </testsuite>',
+    ].join('\n');
+  });
+  const errors = runs.filter(r => r.error).length;
+  const tests = runs.reduce((n, r) => n + r.tests.length, 0) + errors;
+  const failures = runs.reduce((n, r) => n + r.tests.filter(t => t.verdict === 'fail' || t.regression === 'fail').length, 0);
+  const time = seconds(runs.reduce((n, r) => n + r.durationMs, 0));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="gen-unit-test" tests="${tests}" failures="${failures}" errors="${errors}" time="${time}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Write the JSON report (`{ version, createdAt, runs }`) and the JUnit
+ * XML of the runs to the requested files.
+ */
+export async function writeReports(runs: RunReport[], files: ReportFiles, root: string): Promise<void> {
+  for (const file of [files.json, files.junit]) {
+    if (file) await fsp.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+  }
+  if (files.json) {
+    const report = { version: 1, createdAt: new Date().toISOString(), runs };
+    await fsp.writeFile(files.json, JSON.stringify(report, null, 2) + '\n', 'utf8');
+  }
+  if (files.junit) {
+    await fsp.writeFile(files.junit, toJUnit(runs, root), 'utf8');
+  }
+}
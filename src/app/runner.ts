@@ -1,11 +1,30 @@
 import { fsx } from './utils/fsx.js';
 import { buildPrompt } from './prompt/builder.js';
-import { fetch as llmFetch } from './llm/client.js';
+import { fetch as llmFetch, currentProvider } from './llm/client.js';
+import { promptKey } from './llm/replay.js';
 import { findTestFile } from './utils/findTestFile.js';
-import { applyAndValidateTests } from './utils/applyAndValidateTests.js';
+import { applyAndValidateTests, failedCandidates, TestResult } from './utils/applyAndValidateTests.js';
 import { applyAndValidateTestsWithFixing } from './utils/testFixer.js';
+import { reviewTests } from './utils/reviewTests.js';
 import { replaceWithTestExtension } from './utils/fileExtensions.js';
+import { BuildSettings, ensureRegistered } from './compiler/build.js';
+import { Middleware, BuildCtx, FailedCandidate, MockContext, apiSummary, coverageGaps } from './prompt/middleware.js';
+import { extractApi, Analyzer } from './analysis/extractApi.js';
+import { ApiModel } from './analysis/apiModel.js';
+import { measureCoverage, formatCoverage, percent, CoverageReport } from './compiler/coverage.js';
+import { effectiveFlags, includeSearchPath } from './compiler/compileDb.js';
+import { findMockSpecs, writeMocksHeader, mockContext } from './analysis/mocks.js';
+import { TestStyle } from './prompt/schema.js';
+import { resolveFramework } from './compiler/framework.js';
+import { createPatch } from './compiler/patch.js';
+import { Transaction } from './utils/transaction.js';
+import { RunReport, testReport } from './report.js';
+import { compilerFlags, DEFAULT_CONFIG } from './config/projectConfig.js';
+import { promises as fsp } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
 import chalk from 'chalk';
+import { log } from './utils/logger.js';
 
 export interface Cfg {
   srcFile: string;
@@ -15,60 +34,395 @@ export interface Cfg {
   enableAutoFix?: boolean;
   maxFixAttempts?: number;
   gpp?: boolean; // Use g++ single file mode
+  build?: BuildSettings;
+  testNaming?: string;
+  middlewares?: Middleware[];
+  regression?: boolean; // Re-run the full suite after validating new tests in isolation
+  analyzer?: Analyzer;
+  coverage?: CoverageGoal;  // generate in rounds until these targets are met
+  regenerateRounds?: number; // retries for failed tests, with the failures in the prompt (default: 1)
+  testStyles?: TestStyle[];  // fixture / parameterized / typed tests the LLM may write
+  mocks?: { header: string; readOnly?: boolean }; // generate GoogleMock classes into this header, next to the test file
+  dryRun?: { patchFile?: string }; // leave the tree alone, print (or save) the resulting diff
+  realTestFile?: string;     // dry run: the test file `testFile` is a staged copy of
+  interactive?: boolean;     // the user accepts, rejects, edits or regenerates each test
+  tx?: Transaction;          // where writes go; run() opens one when not given
+  reports?: RunReport[];     // each run adds its report for --report / --junit
 }
 
-export async function run(cfg: Cfg, signal: AbortSignal) {
-  console.log(chalk.blue('📖 Reading source and test files...'));
+export interface CoverageGoal {
+  lineTarget: number;    // percent
+  branchTarget: number;  // percent, 0 = none
+  maxRounds: number;
+  tool?: string;         // gcov / "llvm-cov gcov"
+}
+
+export async function run(cfg: Cfg, signal: AbortSignal): Promise<TestResult[] | undefined> {
+  if (!cfg.tx) return Transaction.run(cfg.root, 'run', signal, tx => run({ ...cfg, tx }, signal));
+  const started = new Date();
+  try {
+    return await (cfg.dryRun ? dryRun(cfg, signal) : generate(cfg, signal, started));
+  } catch (err) {
+    if (cfg.reports) reportError(cfg, started, err);
+    throw err;
+  }
+}
+
+/**
+ * Record the error that stopped the run in its report, adding the report
+ * if the run failed before it had one.
+ */
+function reportError(cfg: Cfg, started: Date, err: unknown): void {
+  let report = cfg.reports!.find(r => r.source === cfg.srcFile);
+  if (!report) {
+    const llm = currentProvider();
+    report = {
+      source: cfg.srcFile,
+      testFile: cfg.realTestFile ?? cfg.testFile,
+      framework: resolveFramework(cfg.build?.framework).kind,
+      model: { provider: llm.kind, name: llm.model },
+      startedAt: started.toISOString(),
+      durationMs: 0,
+      rounds: [],
+      tests: [],
+      preexistingFailures: [],
+    };
+    cfg.reports!.push(report);
+  }
+  report.durationMs = Date.now() - started.getTime();
+  report.error = err instanceof Error ? err.message : String(err);
+}
+
+async function generate(cfg: Cfg, signal: AbortSignal, started: Date): Promise<TestResult[] | undefined> {
+  log.info(chalk.blue('📖 Reading source and test files...'));
   const srcOrig = await fsx.read(cfg.srcFile);
-  console.log(chalk.green(`✅ Source file read: ${cfg.srcFile}`));
+  log.info(chalk.green(`✅ Source file read: ${cfg.srcFile}`));
   
   const testOrig = await fsx.readIfExists(cfg.testFile);
   if (testOrig) {
-    console.log(chalk.green(`✅ Existing test file found: ${cfg.testFile}`));
+    log.info(chalk.green(`✅ Existing test file found: ${cfg.testFile}`));
   } else {
-    console.log(chalk.yellow(`⚠️  No existing test file at: ${cfg.testFile}`));
+    log.warn(chalk.yellow(`⚠️  No existing test file at: ${cfg.testFile}`));
+  }
+
+  const testPath = await resolveTestPath(cfg);
+
+  const testOrigContent = await fsx.readIfExists(testPath);
+  const framework = resolveFramework(cfg.build?.framework, testOrigContent).kind;
+  log.debug(chalk.gray(`🧪 Test framework: ${framework}`));
+
+  const llm = currentProvider();
+  const report: RunReport | undefined = cfg.reports && {
+    source: cfg.srcFile,
+    testFile: cfg.realTestFile ?? testPath,
+    framework,
+    model: { provider: llm.kind, name: llm.model },
+    startedAt: started.toISOString(),
+    durationMs: 0,
+    rounds: [],
+    tests: [],
+    preexistingFailures: [],
+  };
+  if (report) cfg.reports!.push(report);
+
+  log.info(chalk.blue('🔬 Extracting API surface...'));
+  const api = await extractApi(cfg.srcFile, {
+    analyzer: cfg.analyzer,
+    flags: await effectiveFlags(path.resolve(cfg.root, cfg.srcFile), cfg.build?.compileCommands, cfg.build?.gppFlags ?? []),
+    root: cfg.root,
+    signal
+  });
+  log.info(chalk.green(`✅ API extracted (${api.extractor}): ${api.classes.length} class(es), ${api.functions.length} free function(s)`));
+
+  let mocks: MockContext | undefined;
+  if (cfg.mocks && framework !== 'gtest') {
+    log.warn(chalk.yellow(`⚠️  Mocks need Google Test, skipped for ${framework}`));
+  } else if (cfg.mocks) {
+    mocks = await generateMocks(cfg, testPath, api);
+  }
+
+  const coverage = cfg.coverage;
+  const measure = () => measureCoverage({
+    ...cfg.build,
+    root: cfg.root,
+    testFile: testPath,
+    srcFile: cfg.srcFile,
+    mode: cfg.gpp ? 'g++' : 'cmake',
+    tool: coverage?.tool
+  }, signal);
+  const before = coverage && testOrigContent ? await measure() : undefined;
+  if (coverage) log.info(chalk.gray(`📈 Coverage before: ${formatCoverage(before)}`));
+
+  const rounds = coverage ? Math.max(1, coverage.maxRounds) : 1;
+  let current = before;
+  const results: TestResult[] = [];
+  const failed: FailedCandidate[] = [];
+  for (let round = 1; round <= rounds; round++) {
+    if (coverage && current && targetReached(current, coverage)) {
+      log.info(chalk.green('🎯 Coverage target reached'));
+      break;
+    }
+    if (coverage) log.info(chalk.blue(`🔁 Coverage round ${round}/${rounds}`));
+    const missed = current ? [...current.missedLines, ...current.missedBranches] : [];
+    const roundResults = await generateRound(cfg, testPath, srcOrig, api, { missed, prevFailures: failed, mocks, framework }, signal, report);
+    if (!roundResults) {
+      if (report) report.durationMs = Date.now() - started.getTime();
+      if (round === 1) return;
+      break;
+    }
+    replaceRetried(results, roundResults, report);
+
+    // Failed candidates go back to the LLM with the reason they failed
+    let newlyFailed = failedCandidates(roundResults);
+    for (let retry = 1; newlyFailed.length && retry <= (cfg.regenerateRounds ?? 1); retry++) {
+      failed.push(...newlyFailed);
+      log.info(chalk.blue(`♻️  Regenerating after ${newlyFailed.length} failed test(s) (${retry}/${cfg.regenerateRounds ?? 1})`));
+      const retried = await generateRound(cfg, testPath, srcOrig, api, { missed, prevFailures: failed, mocks, framework }, signal, report);
+      if (!retried) break;
+      replaceRetried(results, retried, report);
+      newlyFailed = failedCandidates(retried);
+    }
+    if (!cfg.gpp && cfg.build?.registerTests) {
+      await ensureRegistered({ ...cfg.build, root: cfg.root, srcFile: cfg.srcFile, tx: cfg.tx }, testPath, signal);
+    }
+    if (!coverage) break;
+
+    const previous = current;
+    current = await measure() ?? current;
+    log.info(chalk.gray(`📈 Coverage after round ${round}: ${formatCoverage(current)}`));
+    if (previous && current && !improved(previous, current)) {
+      log.warn(chalk.yellow('⚠️  Coverage did not improve, stopping'));
+      break;
+    }
+  }
+
+  const preexisting = [...new Set(results.flatMap(r => r.preexistingFailures ?? []))];
+  if (preexisting.length) {
+    log.warn(chalk.yellow(`⚠️  Tests already failing before generation: ${preexisting.join(', ')}`));
+  }
+
+  const passedCount = results.filter(r => r.verdict === 'pass').length;
+  const skippedCount = results.filter(r => r.verdict === 'skipped').length;
+  const totalCount = results.length - skippedCount;
+  
+  log.info(chalk.blue('─'.repeat(50)));
+  if (passedCount === totalCount) {
+    log.info(chalk.green(`🎉 All ${totalCount} tests passed successfully!`));
+  } else {
+    log.info(chalk.yellow(`📊 Results: ${passedCount}/${totalCount} tests passed`));
+  }
+  if (skippedCount) {
+    log.info(chalk.gray(`⏭️  ${skippedCount} test(s) skipped, already in the test file`));
+  }
+  if (coverage) {
+    log.info(chalk.blue(`📈 Coverage: ${formatCoverage(before)} → ${formatCoverage(current)}`));
+  }
+  if (report) {
+    report.durationMs = Date.now() - started.getTime();
+    report.preexistingFailures = preexisting;
+    if (coverage) report.coverage = { before, after: current };
   }
+  log.info(chalk.blue('Test generation completed'));
+  return results;
+}
+
+/**
+ * Add the tests of a round to `results`, each one regenerated in place of
+ * the failed test of the same name. The remaining entry, also in
+ * `report`, counts the regeneration and the earlier fix attempts.
+ */
+function replaceRetried(results: TestResult[], round: TestResult[], report?: RunReport): void {
+  for (const r of round) {
+    const i = results.findIndex(p => p.name === r.name && p.verdict === 'fail');
+    if (i < 0) {
+      results.push(r);
+      continue;
+    }
+    r.fixAttempts = (results[i].fixAttempts ?? 0) + 1 + (r.fixAttempts ?? 0);
+    results[i] = r;
+    if (!report) continue;
+    // The round's own entry for the test is the last one
+    const entries = report.tests.filter(t => t.name === r.name);
+    const latest = entries[entries.length - 1];
+    latest.fixAttempts = r.fixAttempts;
+    report.tests = report.tests.filter(t => t.name !== r.name || t === latest);
+  }
+}
 
+/**
+ * The test file to extend: the configured one if it exists, else an
+ * existing test of the source, else a new file named after it.
+ */
+async function resolveTestPath(cfg: Cfg): Promise<string> {
   let testPath = cfg.testFile;
   if (!testPath || !fsx.exists(testPath)) {
-    console.log(chalk.blue('🔍 Searching for existing test file...'));
+    log.info(chalk.blue('🔍 Searching for existing test file...'));
     testPath = await findTestFile(cfg.srcFile, cfg.root)
-            ?? replaceWithTestExtension(cfg.srcFile);  // last resort
-    console.log(chalk.gray(`📝 Using test file: ${testPath}`));
+            ?? replaceWithTestExtension(cfg.srcFile, cfg.testNaming);  // last resort
+    log.debug(chalk.gray(`📝 Using test file: ${testPath}`));
   }
+  return testPath;
+}
 
-  const testOrigContent = await fsx.readIfExists(testPath);
+/**
+ * Run the workflow on a copy of the test file staged in a temp directory
+ * and report the change as a unified diff. Includes are still written
+ * for the real test file, and its directory is on the include path so
+ * they resolve. The copy is built in g++ mode, away from the CMake tree;
+ * CMake registration and new mocks are skipped: they would write to it.
+ */
+async function dryRun(cfg: Cfg, signal: AbortSignal): Promise<TestResult[] | undefined> {
+  const testPath = await resolveTestPath(cfg);
+  const before = fsx.exists(testPath) ? await fsx.read(testPath) : undefined;
+  return withDryRunCopy(testPath, cfg.build, cfg.tx!, async (scratch, build) => {
+    const results = await run({
+      ...cfg,
+      testFile: scratch,
+      realTestFile: path.resolve(testPath),
+      dryRun: undefined,
+      gpp: true,
+      build,
+      mocks: cfg.mocks && { ...cfg.mocks, readOnly: true }
+    }, signal);
+    const patch = createPatch(cfg.root, testPath, before, await fsx.read(scratch));
+    if (!patch) {
+      log.info(chalk.gray(`📝 Dry run: no change to ${testPath}`));
+    } else if (cfg.dryRun!.patchFile) {
+      await fsx.write(cfg.dryRun!.patchFile, patch);
+      log.info(chalk.green(`✅ Patch written to ${cfg.dryRun!.patchFile} (apply it with \`apply ${cfg.dryRun!.patchFile}\`)`));
+    } else {
+      log.info(chalk.blue(`📝 Dry run: changes to ${testPath}`));
+      console.log(patch);
+    }
+    return results;
+  });
+}
+
+/**
+ * Stage a copy of the test file in a temp directory and hand it to
+ * `body`, with build settings that compile it there with g++ (finding
+ * the real test file's neighbours) and register nothing. Replicas and
+ * fix candidates land next to the copy, so the project is not written.
+ */
+export async function withDryRunCopy<T>(
+  testPath: string,
+  build: BuildSettings | undefined,
+  tx: Transaction,
+  body: (scratch: string, build: BuildSettings) => Promise<T>
+): Promise<T> {
+  const dir = await fsp.mkdtemp(path.join(tmpdir(), 'dryrun-'));
+  const scratch = path.join(dir, path.basename(testPath));
+  log.debug(chalk.gray(`🧪 Dry run on scratch copy: ${scratch}`));
+  await fsx.write(tx.scratch(scratch), await fsx.readIfExists(testPath));
 
-  console.log(chalk.blue('🔨 Building prompt for LLM...'));
-  const prompt = buildPrompt({
+  try {
+    const gppFlags = build?.gppFlags ?? compilerFlags(DEFAULT_CONFIG);
+    return await body(scratch, {
+      ...build,
+      registerTests: false,
+      gppFlags: [...gppFlags, `-I${path.resolve(path.dirname(testPath))}`]
+    });
+  } finally {
+    await fsp.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Write GoogleMock classes for the mockable dependencies of the code
+ * under test into the shared mocks header next to the test file.
+ */
+async function generateMocks(cfg: Cfg, testPath: string, api: ApiModel): Promise<MockContext | undefined> {
+  log.info(chalk.blue('🎭 Looking for dependencies to mock...'));
+  const includeDirs = await includeSearchPath(cfg.root, cfg.srcFile, cfg.build?.compileCommands, cfg.build?.gppFlags ?? []);
+  const specs = await findMockSpecs(api, cfg.root, includeDirs);
+  if (!specs.length) {
+    log.debug(chalk.gray('  No dependency with virtual methods found'));
+    return undefined;
+  }
+  const header = path.join(path.dirname(cfg.realTestFile ?? testPath), cfg.mocks!.header);
+  const added = await writeMocksHeader(header, specs, includeDirs, !cfg.mocks!.readOnly, cfg.tx);
+  if (added.length && cfg.mocks!.readOnly) {
+    log.warn(chalk.yellow(`⚠️  Dry run: ${added.join(', ')} not in ${header} yet, mocks skipped`));
+    return undefined;
+  }
+  if (added.length) log.info(chalk.green(`✅ Added ${added.join(', ')} to ${header}`));
+  else log.debug(chalk.gray(`  Mocks already in ${header}: ${specs.map(s => s.name).join(', ')}`));
+  return mockContext(specs, header, cfg.realTestFile ?? testPath);
+}
+
+function targetReached(r: CoverageReport, goal: CoverageGoal): boolean {
+  return percent(r.lines) >= goal.lineTarget && (!goal.branchTarget || percent(r.branches) >= goal.branchTarget);
+}
+
+function improved(prev: CoverageReport, next: CoverageReport): boolean {
+  return next.lines.covered > prev.lines.covered || next.branches.covered > prev.branches.covered;
+}
+
+/**
+ * One prompt → reply → apply/validate cycle. Lines the last coverage
+ * run missed and earlier failed candidates (`ctx`) are shown to the LLM.
+ * The cycle and its tests are added to `report`.
+ * @returns The per-test results, or undefined if the LLM produced no tests
+ */
+async function generateRound(
+  cfg: Cfg,
+  testPath: string,
+  srcText: string,
+  api: ApiModel,
+  ctx: Partial<BuildCtx>,
+  signal: AbortSignal,
+  report?: RunReport
+): Promise<TestResult[] | undefined> {
+  log.info(chalk.blue('🔨 Building prompt for LLM...'));
+  const promptWith = async (extra: Partial<BuildCtx> = {}) => buildPrompt({
     srcPath     : cfg.srcFile,
-    srcText     : srcOrig,
-    testText    : testOrigContent
+    srcText     : srcText,
+    testText    : await fsx.readIfExists(testPath),
+    testPath    : cfg.realTestFile ?? testPath,
+    root        : cfg.root,
+    ctx         : { ...(cfg.testStyles ? { ...ctx, styles: cfg.testStyles } : ctx), ...extra },
+    middlewares : [...(cfg.middlewares ?? []), apiSummary(api), coverageGaps(srcText)]
   });
-  console.log(chalk.green('✅ Prompt built successfully'));
+  const prompt = await promptWith();
+  log.info(chalk.green('✅ Prompt built successfully'));
 
-  console.log(chalk.blue('🤖 Sending request to LLM...'));
-  const reply = await llmFetch(prompt, signal);
-  console.log(chalk.green('✅ LLM response received'));
+  log.info(chalk.blue('🤖 Sending request to LLM...'));
+  const asked = Date.now();
+  const reply = await llmFetch(prompt, signal, cfg.testStyles ?? ['plain']);
+  const llmMs = Date.now() - asked;
+  log.info(chalk.green('✅ LLM response received'));
 
-  console.log(chalk.blue('📊 Processing LLM response...'));
+  log.info(chalk.blue('📊 Processing LLM response...'));
   if (!reply.tests?.length) {
-    console.log(chalk.yellow('⚠️  No tests generated by LLM'));
-    return;
+    log.warn(chalk.yellow('⚠️  No tests generated by LLM'));
+    return undefined;
   }
   
-  console.log(chalk.green(`✅ Generated ${reply.tests.length} test(s)`));
+  log.info(chalk.green(`✅ Generated ${reply.tests.length} test(s)`));
   reply.tests.forEach((test, index) => {
-    console.log(chalk.gray(`  ${index + 1}. ${test.name}`));
+    log.debug(chalk.gray(`  ${index + 1}. ${test.name}`));
   });
 
-  console.log(chalk.blue('🔧 Applying and validating tests...'));
+  log.info(chalk.blue('🔧 Applying and validating tests...'));
   
   // Use the enhanced version with auto-fixing if enabled
   const useAutoFix = cfg.enableAutoFix ?? true;
   const maxFixAttempts = cfg.maxFixAttempts ?? 3;
+  const applying = Date.now();
   
-  const results = useAutoFix 
+  const results: TestResult[] = cfg.interactive
+    ? await reviewTests({
+        testFile: testPath,
+        newTests: reply.tests,
+        cfg: { ...cfg, testFile: testPath },
+        signal,
+        bypassValidation: cfg.bypassValidation ?? false,
+        regenerate: async (test, comment) => {
+          const revised = await llmFetch(await promptWith({ revise: { name: test.name, code: test.code, comment } }), signal, cfg.testStyles ?? ['plain']);
+          return revised.tests?.[0];
+        }
+      })
+    : useAutoFix 
     ? await applyAndValidateTestsWithFixing({
         testFile: testPath,
         newTests: reply.tests,
@@ -86,26 +440,35 @@ export async function run(cfg: Cfg, signal: AbortSignal) {
         bypassValidation: cfg.bypassValidation ?? true
       });
 
-  console.log(chalk.blue('📋 Test Results:'));
+  if (report) {
+    const round = report.rounds.length + 1;
+    report.rounds.push({ round, promptHash: promptKey(prompt), llmMs, applyMs: Date.now() - applying, tests: results.length });
+    report.tests.push(...results.map(r => testReport(r, reply.tests.find(t => t.name === r.name), round)));
+  }
+
+  log.info(chalk.blue('📋 Test Results:'));
   // Log results for each test
   for (const r of results) {
-    if (r.verdict === 'pass') {
-      const fixedIndicator = (r as any).fixed ? ' (auto-fixed)' : '';
-      console.log(chalk.green(`  ✅ ${r.name}${fixedIndicator}`));
+    if (r.review === 'rejected') {
+      log.info(chalk.gray(`  ⏭️  ${r.name} (rejected)`), { test: r.name, verdict: r.verdict });
+    } else if (r.verdict === 'skipped') {
+      log.info(chalk.gray(`  ⏭️  ${r.name} (already in the test file)`), { test: r.name, verdict: r.verdict });
+    } else if (r.verdict === 'pass') {
+      const fixedIndicator = r.fixed ? ' (auto-fixed)' : '';
+      if (r.regression === 'fail') {
+        log.warn(chalk.yellow(`  ⚠️  ${r.name}${fixedIndicator} (passes alone, fails in full suite)`), { test: r.name, verdict: r.verdict, fixed: !!r.fixed, regression: r.regression });
+      } else {
+        log.info(chalk.green(`  ✅ ${r.name}${fixedIndicator}`), { test: r.name, verdict: r.verdict, fixed: !!r.fixed });
+      }
     } else {
-      console.log(chalk.red(`  ❌ ${r.name}`));
+      log.info(chalk.red(`  ❌ ${r.name}`), { test: r.name, verdict: r.verdict });
+      for (const d of r.diagnostics ?? []) {
+        log.info(chalk.gray(`     ${d.file}${d.line ? `:${d.line}` : ''}: ${d.severity}: ${d.message}`));
+      }
+      for (const f of r.failures ?? []) {
+        log.info(chalk.gray(`     ${f.file ? `${f.file}:${f.line}: ` : ''}${f.message.split('\n')[0]}`));
+      }
     }
   }
-
-  const passedCount = results.filter(r => r.verdict === 'pass').length;
-  const totalCount = results.length;
-  
-  console.log(chalk.blue('─'.repeat(50)));
-  if (passedCount === totalCount) {
-    console.log(chalk.green(`🎉 All ${totalCount} tests passed successfully!`));
-  } else {
-    console.log(chalk.yellow(`📊 Results: ${passedCount}/${totalCount} tests passed`));
-  }
-  console.log(chalk.blue('Test generation completed'));
   return results;
 }
@@ -6,28 +6,68 @@ import chalk from 'chalk';
 import { 
   processIncludes, 
   normalizeIncludes, 
-  deduplicateIncludes 
+  deduplicateIncludes,
+  IncludeSearch
 } from './includeHandler.js';
+import { inferIncludes } from './symbolIncludes.js';
+import { FrameworkSetting, resolveFramework, detectFramework } from '../compiler/framework.js';
+import { Transaction, writeThrough } from './transaction.js';
+import {
+  scanTestBlocks,
+  blockId,
+  findClassDefinitions,
+  classMembers,
+  scanInstantiations,
+  instantiationId,
+  maskCode,
+  findInsertionPoint,
+  ClassDef,
+  InsertionPoint,
+  TestBlock
+} from './testBlocks.js';
+import { log } from './logger.js';
 
 // Enhanced include handling is now in includeHandler.ts
 
+/* What appendTest() did: wrote the test, or left the file alone because it has it */
+export type AppendOutcome = 'inserted' | 'duplicate';
+
+/**
+ * The block of `existing` that `newTest` would duplicate: one with the
+ * same Suite.Name, or the same name when `code` has no block.
+ */
+export function findDuplicate(existing: string, newTest: NewTestYaml): TestBlock | undefined {
+  const block = scanTestBlocks(newTest.code)[0];
+  return scanTestBlocks(existing).find(b => block ? blockId(b) === blockId(block) : b.name === newTest.name);
+}
+
 /**
  * Append a *single* NewTestYaml block to the given test file.
  *
  * ➊ Adds any missing `#include …` directives from `newTest.includes`.  
- * ➋ Appends `newTest.code` only if a TEST with the same name isn't present.  
- * ➌ Creates the file (and parent dirs) if they don't exist.
+ * ➋ Inserts `newTest.code` only if a block with the same Suite.Name isn't present,
+ *    after the last existing test (inside its namespaces) or above `main()`.  
+ * ➌ Adds `newTest.fixture` / `newTest.params` unless the file has them:
+ *    missing members are merged into an existing fixture of the same name.  
+ * ➍ Creates the file (and parent dirs) if they don't exist.
  *
  * @param testFile Absolute/relative path to the test file.
  * @param newTest  A NewTestYaml object produced by the LLM.
  * @param srcFile  Optional: The source file being tested (for include path resolution).
+ * @param search   Optional: The project's include search path (from compile_commands.json / config).
+ * @param framework Optional: Test framework of a new file; an existing file keeps its own.
+ * @param tx       Optional: Transaction the write goes through.
+ * @returns 'duplicate' when the file already has the test and was left alone
  */
 export async function appendTest(
   testFile: string,
   newTest: NewTestYaml,
   srcFile?: string,
-): Promise<void> {
-  console.log(chalk.gray(`  📝 Appending test "${newTest.name}" to ${testFile}`));
+  search?: IncludeSearch,
+  framework: FrameworkSetting = 'auto',
+  tx?: Transaction,
+): Promise<AppendOutcome> {
+  log.debug(chalk.gray(`  📝 Appending test "${newTest.name}" to ${testFile}`));
   
   /* --------------------------------------------------------------- */
   /* 1️⃣  Read existing file (may be empty / missing)                 */
@@ -35,13 +75,16 @@ export async function appendTest(
   let existing = '';
   try {
     existing = await fsp.readFile(testFile, 'utf8');
-    console.log(chalk.gray(`  📖 Read existing file (${existing.length} characters)`));
+    log.trace(chalk.gray(`  📖 Read existing file (${existing.length} characters)`));
   } catch {
-    console.log(chalk.gray('  📖 File does not exist - will create new'));
+    log.trace(chalk.gray('  📖 File does not exist - will create new'));
     /* file does not exist → keep existing = '' */
   }
 
   const lines = existing.split(/\r?\n/);
+  const fw = resolveFramework(framework, existing);
+  // A staged copy gets the includes of the file it stands for
+  const includesFor = search?.testFile ?? testFile;
 
   /* --------------------------------------------------------------- */
   /* 2️⃣  ENHANCED INCLUDE-merge with verification and auto-addition   */
@@ -49,33 +92,44 @@ export async function appendTest(
   const incRx = /^\s*#\s*include\s+[<"].+[>"]/;
   const currentIncludes = new Set(lines.filter(l => incRx.test(l)).map(l => l.trim()));
 
+  // Headers declaring symbols the test uses that nobody included
+  const inferred = await inferIncludes(
+    [newTest.fixture, newTest.params, newTest.code].filter(Boolean).join('\n'), includesFor, srcFile, search, [...currentIncludes, ...(newTest.includes ?? [])]
+  );
+  if (inferred.length) {
+    log.debug(chalk.gray(`  🔎 Inferred from used symbols: ${inferred.join(', ')}`));
+  }
+  const requested = [...(newTest.includes ?? []), ...inferred];
+
   // Process includes with enhanced verification and auto-addition
   if (srcFile) {
-    const includeResult = await processIncludes(newTest.includes ?? [], testFile, srcFile);
+    const includeResult = await processIncludes(requested, includesFor, srcFile, search, fw);
     
     // Normalize and deduplicate the processed includes
     const normalizedIncludes = normalizeIncludes(includeResult.includes);
     const deduplicatedIncludes = deduplicateIncludes(normalizedIncludes);
     
-    // Filter out includes that are already present
-    const missingIncludes = deduplicatedIncludes.filter(inc => !currentIncludes.has(inc));
+    // Filter out includes that are already present (the framework may come from another of its headers, e.g. catch.hpp)
+    const frameworkPresent = detectFramework(existing) !== undefined;
+    const missingIncludes = deduplicatedIncludes.filter(inc =>
+      !currentIncludes.has(inc) && !(frameworkPresent && inc === `#include ${fw.include}`));
     
     if (missingIncludes.length > 0) {
-      console.log(chalk.gray(`  📝 Adding ${missingIncludes.length} missing include(s):`));
-      missingIncludes.forEach(inc => console.log(chalk.gray(`    + ${inc}`)));
+      log.debug(chalk.gray(`  📝 Adding ${missingIncludes.length} missing include(s):`));
+      missingIncludes.forEach(inc => log.debug(chalk.gray(`    + ${inc}`)));
     } else {
-      console.log(chalk.gray('  ✅ All required includes already present'));
+      log.debug(chalk.gray('  ✅ All required includes already present'));
     }
     
     // Show warnings and errors
     if (includeResult.warnings.length > 0) {
-      console.log(chalk.yellow('  ⚠️  Include warnings:'));
-      includeResult.warnings.forEach(warning => console.log(chalk.yellow(`    ${warning}`)));
+      log.warn(chalk.yellow('  ⚠️  Include warnings:'));
+      includeResult.warnings.forEach(warning => log.warn(chalk.yellow(`    ${warning}`)));
     }
     
     if (includeResult.errors.length > 0) {
-      console.log(chalk.red('  ❌ Include errors:'));
-      includeResult.errors.forEach(error => console.log(chalk.red(`    ${error}`)));
+      log.warn(chalk.red('  ❌ Include errors:'));
+      includeResult.errors.forEach(error => log.warn(chalk.red(`    ${error}`)));
     }
     
     // Insert missing includes at the appropriate location
@@ -86,16 +140,16 @@ export async function appendTest(
     }
   } else {
     // Fallback for when srcFile is not provided
-    console.log(chalk.gray('  🔍 Processing includes (fallback mode)...'));
-    const normalizedIncludes = normalizeIncludes(newTest.includes ?? []);
+    log.debug(chalk.gray('  🔍 Processing includes (fallback mode)...'));
+    const normalizedIncludes = normalizeIncludes(requested);
     const deduplicatedIncludes = deduplicateIncludes(normalizedIncludes);
     const missingIncludes = deduplicatedIncludes.filter(inc => !currentIncludes.has(inc));
     
     if (missingIncludes.length > 0) {
-      console.log(chalk.gray(`  📝 Adding ${missingIncludes.length} missing include(s):`));
-      missingIncludes.forEach(inc => console.log(chalk.gray(`    + ${inc}`)));
+      log.debug(chalk.gray(`  📝 Adding ${missingIncludes.length} missing include(s):`));
+      missingIncludes.forEach(inc => log.debug(chalk.gray(`    + ${inc}`)));
     } else {
-      console.log(chalk.gray('  ✅ All required includes already present'));
+      log.debug(chalk.gray('  ✅ All required includes already present'));
     }
     
     const lastIncIdx = lines.reduce((idx, l, i) => (incRx.test(l) ? i : idx), -1);
@@ -108,26 +162,131 @@ export async function appendTest(
   /* --------------------------------------------------------------- */
   /* 3️⃣  Duplicate-test check                                       */
   /* --------------------------------------------------------------- */
-  console.log(chalk.gray('  🔍 Checking for duplicate test...'));
-  const alreadyExists = new RegExp(`\\b${newTest.name}\\b`).test(existing);
-  if (!alreadyExists) {
-    console.log(chalk.gray('  ✅ Test name is unique - will append'));
-    if (lines.length && lines[lines.length - 1].trim() !== '') lines.push('');
-    lines.push(
-      `// ─── AUTO-GENERATED TEST: ${newTest.name} ───`,
-      newTest.code.trim(),
-      '',
-    );
-  } else {
-    console.log(chalk.yellow(`  ⚠️  Test "${newTest.name}" already exists - skipping`));
+  log.trace(chalk.gray('  🔍 Checking for duplicate test...'));
+  const collision = findDuplicate(existing, newTest);
+  if (collision) {
+    log.warn(chalk.yellow(`  ⚠️  Test "${newTest.name}" already exists (${collision.macro} at line ${collision.startLine}) - skipping`));
+    return 'duplicate';
   }
+  log.trace(chalk.gray('  ✅ Test name is unique - will insert'));
+  const support = mergeSupport(lines.join('\n'), newTest);
+  const at = findInsertionPoint(support.text);
+  log.debug(chalk.gray(`  📍 Inserting ${describeInsertion(at)}`));
+  const text = insertChunk(support.text, at.offset, [
+    `// ─── AUTO-GENERATED TEST: ${newTest.name} ───`,
+    ...support.before,
+    support.code,
+    ...support.after,
+  ].join('\n'));
 
   /* --------------------------------------------------------------- */
   /* 4️⃣  Write back                                                 */
   /* --------------------------------------------------------------- */
-  if (!alreadyExists) {
-    console.log(chalk.gray('  💾 Writing updated test file...'));
-    await fsp.writeFile(testFile, lines.join('\n'), 'utf8');
-    console.log(chalk.green(`  ✅ Test "${newTest.name}" successfully appended`));
+  log.trace(chalk.gray('  💾 Writing updated test file...'));
+  await writeThrough(tx, testFile, text);
+  log.info(chalk.green(`  ✅ Test "${newTest.name}" successfully appended`));
+  return 'inserted';
+}
+
+function describeInsertion(at: InsertionPoint): string {
+  const where = at.after ? `after ${blockId(at.after)}` : at.beforeMain ? 'before main()' : 'at end of file';
+  const scope = at.namespaces.map(n => n || '(anonymous)').join('::');
+  return scope ? `${where}, in namespace ${scope}` : where;
+}
+
+/**
+ * Put `chunk` at `offset` with a blank line on either side, leaving the
+ * surrounding text as it is.
+ */
+function insertChunk(text: string, offset: number, chunk: string): string {
+  const head = text.slice(0, offset);
+  const tail = text.slice(offset);
+  const lead = !head.length || head.endsWith('\n\n') ? '' : head.endsWith('\n') ? '\n' : '\n\n';
+  const trail = tail.startsWith('\n') ? '' : tail.length ? '\n\n' : '\n';
+  return head + lead + chunk + trail + tail;
+}
+
+/**
+ * Sort the fixture classes and instantiations a new test brings (in
+ * `fixture`, `params`, or inline in `code`) against the file:
+ *  • a fixture the file already defines is not added again; members it
+ *    lacks are merged into it
+ *  • an instantiation with the same prefix and suite is dropped
+ *  • what is left goes before the test block, INSTANTIATE_* after it
+ * @returns The file with merged fixtures and the pieces to append
+ */
+function mergeSupport(text: string, newTest: NewTestYaml): {
+  text: string;
+  before: string[];
+  code: string;
+  after: string[];
+} {
+  const before: string[] = [];
+  const after: string[] = [];
+  let code = '';
+
+  for (const [kind, chunk] of [['fixture', newTest.fixture], ['params', newTest.params], ['code', newTest.code]] as const) {
+    if (!chunk?.trim()) continue;
+    const drop: [number, number][] = [];
+
+    for (const def of findClassDefinitions(chunk)) {
+      const target = findClassDefinitions(text).find(c => c.name === def.name);
+      const pending = before.some(p => findClassDefinitions(p).some(c => c.name === def.name));
+      if (!target && !pending) continue;
+      if (target) text = mergeFixture(text, target, chunk, def);
+      drop.push([def.start, def.end]);
+    }
+
+    const present = new Set([text, ...before].flatMap(scanInstantiations).map(instantiationId));
+    for (const inst of scanInstantiations(chunk)) {
+      if (!present.has(instantiationId(inst))) continue;
+      log.debug(chalk.gray(`  ♻️  ${inst.macro}(${instantiationId(inst)}) already present`));
+      drop.push([inst.start, inst.end]);
+    }
+
+    let rest = chunk;
+    for (const [from, to] of drop.sort((a, b) => b[0] - a[0])) rest = rest.slice(0, from) + rest.slice(to);
+    // A type-list alias left without its TYPED_TEST_SUITE is already declared
+    const masked = maskCode(text);
+    rest = rest.replace(/^\s*using\s+(\w+)\s*=[^;]*;[ \t]*$/gm, (alias, name: string) =>
+      new RegExp(`\\busing\\s+${name}\\s*=`).test(masked) ? '' : alias).trim();
+
+    if (kind === 'code') code = rest;
+    else if (!rest) continue;
+    else if (kind === 'params' && /\bINSTANTIATE_/.test(rest)) after.push(rest);
+    else before.push(rest);
+  }
+  return { text, before, code, after };
+}
+
+/**
+ * Add the members of `incoming` that the fixture `target` of `text` does
+ * not have, under the access label they were declared with. Members both define
+ * differently keep the file's version.
+ */
+function mergeFixture(text: string, target: ClassDef, chunk: string, incoming: ClassDef): string {
+  const flat = (s: string) => s.replace(/\s+/g, ' ');
+  const members = classMembers(text, target);
+  const have = new Map(members.map(m => [m.key, m]));
+  const added = classMembers(chunk, incoming).filter(m => {
+    const mine = have.get(m.key);
+    if (mine && flat(mine.text) !== flat(m.text)) {
+      log.warn(chalk.yellow(`  ⚠️  Fixture ${target.name} already has ${m.key}; keeping the existing one`));
+    }
+    return !mine;
+  });
+  if (!added.length) {
+    log.debug(chalk.gray(`  ♻️  Reusing fixture ${target.name}`));
+    return text;
   }
+
+  log.debug(chalk.gray(`  🧩 Merging ${added.length} member(s) into fixture ${target.name}: ${added.map(m => m.key).join(', ')}`));
+  const head = text.slice(0, target.bodyEnd).replace(/[ \t]*$/, '');
+  let access = members[members.length - 1]?.access ?? (target.isStruct ? 'public' : 'private');
+  const insert = added.map(m => {
+    const label = m.access !== access ? ` ${m.access}:\n` : '';
+    access = m.access;
+    return `${label}  ${m.text}\n`;
+  }).join('');
+  return `${head}${head.endsWith('\n') ? '' : '\n'}${insert}${text.slice(target.bodyEnd)}`;
 }
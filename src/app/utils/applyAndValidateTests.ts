@@ -1,10 +1,241 @@
 import { appendTest } from './appendTest.js';
 import { fsx } from './fsx.js';
-import { compileAndRun } from '../compiler/build.js';
+import { compileAndRun, BuildSettings, CompilationResult } from '../compiler/build.js';
 import { NewTestYaml } from '../prompt/schema.js';
+import { FailedCandidate } from '../prompt/middleware.js';
+import { Diagnostic } from '../compiler/diagnostics.js';
+import { TestFailure, testName } from '../compiler/gtestResults.js';
+import { findTestBlocks } from '../prompt/validate.js';
+import { reportedBlockId, gtestFilterFor, blockId } from './testBlocks.js';
+import { includeSearchPath, effectiveFlags } from '../compiler/compileDb.js';
+import { IncludeSearch } from './includeHandler.js';
+import { querySystemIncludeDirs, cppStandardOf } from './systemHeaders.js';
+import { DEFAULT_CONFIG } from '../config/projectConfig.js';
+import { Transaction, writeThrough } from './transaction.js';
 import { promises as fsp } from 'node:fs';
 import path from 'node:path';
 import chalk from 'chalk';
+import { log } from './logger.js';
+
+export interface TestResult {
+  name: string;
+  verdict: string;              // pass / fail / rejected / skipped (already in the test file)
+  fixed?: boolean;
+  diagnostics?: Diagnostic[];   // compiler/linker errors of the failed candidate
+  failures?: TestFailure[];     // assertion failures of the new test itself
+  preexistingFailures?: string[]; // other tests in the file that were failing anyway
+  isolated?: string;            // verdict of the candidate run alone (--gtest_filter)
+  regression?: string;          // verdict of the candidate in the final full-suite run
+  code?: string;                // the generated TEST block, kept for failed candidates
+  goal?: string;                // set when the test differs from the LLM's reply (review)
+  fixAttempts?: number;         // LLM fix attempts spent on the candidate
+  review?: ReviewOutcome;       // how the test was settled in `run --interactive`
+}
+
+export type ReviewOutcome = 'accepted' | 'edited' | 'regenerated' | 'rejected';
+
+export interface ValidationCfg {
+  testFile: string;
+  srcFile: string;
+  root: string;
+  gpp?: boolean;
+  build?: BuildSettings;
+  regression?: boolean;         // re-run the whole suite once all candidates are applied
+  tx?: Transaction;             // writes to the test file go through it
+  realTestFile?: string;        // dry run: the test file `testFile` is a staged copy of
+}
+
+/**
+ * Build and run a test file; `filter` restricts the run to the given tests.
+ */
+export function compileCandidate(file: string, cfg: ValidationCfg, signal: AbortSignal, filter?: string) {
+  return compileAndRun({
+    ...cfg.build,
+    root: cfg.root,
+    testFile: file,
+    srcFile: cfg.srcFile,
+    mode: cfg.gpp ? 'g++' : 'cmake',
+    gtestFilter: filter,
+    tx: cfg.tx
+  }, signal);
+}
+
+/**
+ * Search paths used to verify and write `#include` lines for the tests
+ * of `cfg.srcFile`: the project's include directories and, for `<...>`
+ * includes, the compiler's own search path and language standard.
+ */
+export async function testIncludeSearch(cfg: ValidationCfg): Promise<IncludeSearch> {
+  const build = cfg.build ?? {};
+  const configured = build.gppFlags ?? [];
+  const flags = await effectiveFlags(path.resolve(cfg.root, cfg.srcFile), build.compileCommands, configured);
+
+  return {
+    root: path.resolve(cfg.root),
+    includeDirs: await includeSearchPath(cfg.root, cfg.srcFile, build.compileCommands, configured),
+    testFile: cfg.realTestFile,
+    system: {
+      systemDirs: build.systemIncludeDirs?.length
+        ? build.systemIncludeDirs.map(d => path.resolve(cfg.root, d))
+        : await querySystemIncludeDirs(build.compiler ?? DEFAULT_CONFIG.compiler, flags),
+      cppStandard: cppStandardOf(flags),
+      unresolved: build.unresolvedIncludes ?? DEFAULT_CONFIG.unresolvedIncludes
+    }
+  };
+}
+
+/**
+ * Run the complete test file once and record, for every accepted
+ * candidate, whether it still passes alongside all the other tests.
+ * Tests failing that are not candidates are reported as pre-existing.
+ */
+export async function runRegression(
+  testFile: string,
+  newTests: NewTestYaml[],
+  results: TestResult[],
+  cfg: ValidationCfg,
+  signal: AbortSignal
+): Promise<CompilationResult> {
+  log.info(chalk.blue('\n🔁 Running full-suite regression...'));
+  const full = await compileCandidate(testFile, cfg, signal);
+  const ids = new Map(newTests.map(t => [t.name, candidateId(t)]));
+  const candidateIds = new Set(ids.values());
+  const preexisting = (full.tests ?? [])
+    .filter(t => t.status === 'failed' && !candidateIds.has(reportedBlockId(t.suite, t.name)))
+    .map(testName);
+
+  for (const r of results) {
+    r.preexistingFailures = preexisting;
+    if (r.verdict !== 'pass') continue;
+    r.regression = judgeCandidate(ids.get(r.name), full).pass ? 'pass' : 'fail';
+    const line = `  ${r.regression === 'pass' ? '✅' : '❌'} ${r.name} (full suite)`;
+    log.info(r.regression === 'pass' ? chalk.green(line) : chalk.red(line));
+  }
+  return full;
+}
+
+/**
+ * `Suite.Name` of the TEST block carried by a generated test (the bare
+ * name of a TEST_CASE).
+ */
+export function candidateId(newTest: NewTestYaml): string | undefined {
+  const block = findTestBlocks(newTest.code)[0];
+  return block ? blockId(block) : undefined;
+}
+
+/**
+ * `--gtest_filter` running only the generated test, with every instance
+ * of a parameterized or typed one.
+ */
+export function candidateFilter(newTest: NewTestYaml): string | undefined {
+  const block = findTestBlocks(newTest.code)[0];
+  return block ? gtestFilterFor(block) : undefined;
+}
+
+/**
+ * Judge a validation run for one candidate test.
+ * When per-test results are available only the candidate's own verdict
+ * counts (all of its instances must pass); other failing tests are
+ * reported as pre-existing failures.
+ * Without them (e.g. CMake builds) the overall build/run status decides.
+ */
+export function judgeCandidate(id: string | undefined, compiled: CompilationResult): {
+  pass: boolean;
+  failures: TestFailure[];
+  preexistingFailures: string[];
+} {
+  if (!compiled.tests || !id) {
+    return { pass: compiled.success, failures: [], preexistingFailures: [] };
+  }
+  const own = compiled.tests.filter(t => reportedBlockId(t.suite, t.name) === id);
+  const preexistingFailures = compiled.tests
+    .filter(t => t.status === 'failed' && reportedBlockId(t.suite, t.name) !== id)
+    .map(testName);
+  return {
+    pass: own.length > 0 && own.every(t => t.status === 'passed'),
+    failures: own.flatMap(t => t.failures ?? []),
+    preexistingFailures
+  };
+}
+
+/* What auto-fixing a failing candidate came to */
+export interface CandidateFix {
+  attempts: number;
+  content?: string;              // the fixed replica, when the test passes
+  compiled?: CompilationResult;  // the build and run that passed
+}
+
+/* Fix a candidate in its replica, given the build and run it failed */
+export type FixCandidate = (replicaPath: string, id: string | undefined, compiled: CompilationResult) => Promise<CandidateFix>;
+
+export interface CandidateCheck {
+  compiled: CompilationResult;
+  verdict: ReturnType<typeof judgeCandidate>;
+  content: string;               // the replica with the test, to commit if it is kept
+  fixed?: boolean;
+  fixAttempts?: number;          // set when auto-fix ran
+}
+
+/**
+ * Append a candidate to a replica of the test file, then build and run it
+ * there, handing it to `fix` if it fails. The test file itself is left
+ * untouched.
+ * @returns The verdict and the replica's content, to commit if the test is
+ *          kept, or undefined if the test file already has the test
+ */
+export async function validateCandidate(
+  testFile: string,
+  newTest: NewTestYaml,
+  cfg: ValidationCfg,
+  includeSearch: IncludeSearch,
+  signal: AbortSignal,
+  fix?: FixCandidate
+): Promise<CandidateCheck | undefined> {
+  const ext = path.extname(testFile);
+  const replicaPath = `${testFile.slice(0, -ext.length)}.replica${ext}`;
+  cfg.tx?.scratch(replicaPath);
+  log.trace(chalk.gray(`  📂 Replica path: ${replicaPath}`));
+  if (fsx.exists(testFile)) await fsp.copyFile(testFile, replicaPath);
+  else await fsp.writeFile(replicaPath, '', 'utf8');
+  try {
+    if (await appendTest(replicaPath, newTest, cfg.srcFile, includeSearch, cfg.build?.framework, cfg.tx) === 'duplicate') {
+      return undefined;
+    }
+    const id = candidateId(newTest);
+    const compiled = await compileCandidate(replicaPath, cfg, signal, candidateFilter(newTest));
+    const verdict = judgeCandidate(id, compiled);
+    const content = await fsx.read(replicaPath);
+    if (verdict.pass || !fix) return { compiled, verdict, content };
+
+    const fixed = await fix(replicaPath, id, compiled);
+    if (fixed.content && fixed.compiled) {
+      // The fix was built and run already, its result stands
+      return { compiled: fixed.compiled, verdict: judgeCandidate(id, fixed.compiled), content: fixed.content, fixed: true, fixAttempts: fixed.attempts };
+    }
+    return { compiled, verdict, content, fixAttempts: fixed.attempts };
+  } finally {
+    await fsp.rm(replicaPath, { force: true });
+  }
+}
+
+/**
+ * Failed candidates with their code and why they failed, for the
+ * regeneration prompt.
+ */
+export function failedCandidates(results: TestResult[]): FailedCandidate[] {
+  return results
+    .filter(r => r.verdict === 'fail' && r.code)
+    .map(r => ({
+      name: r.name,
+      code: r.code!,
+      errors: [
+        ...(r.diagnostics ?? [])
+          .filter(d => d.severity !== 'warning')
+          .map(d => `${d.line ? `line ${d.line}: ` : ''}${d.severity}: ${d.message}`),
+        ...(r.failures ?? []).map(f => `${f.line ? `line ${f.line}: ` : ''}${f.message.split('\n').slice(0, 3).join(' ')}`),
+      ],
+    }));
+}
 
 /**
  * For each test in newTests, append to the test file and optionally validate.
@@ -13,6 +244,7 @@ import chalk from 'chalk';
  * @param cfg      Validation config (srcFile, root, etc.)
  * @param signal   AbortSignal for cancellation
  * @param bypassValidation If true, skip validation and directly write tests
+ * @param fix      Auto-fix for candidates that fail validation
  * @returns        Array of results for each test (pass/fail)
  */
 export async function applyAndValidateTests({
@@ -20,79 +252,76 @@ export async function applyAndValidateTests({
   newTests,
   cfg,
   signal,
-  bypassValidation = true
+  bypassValidation = true,
+  fix
 }: {
   testFile: string,
   newTests: NewTestYaml[],
-  cfg: { testFile: string; srcFile: string; root: string },
+  cfg: ValidationCfg,
   signal: AbortSignal,
-  bypassValidation?: boolean
+  bypassValidation?: boolean,
+  fix?: FixCandidate
 }) {
-  console.log(chalk.blue(`🔧 Processing ${newTests.length} test(s)...`));
-  console.log(chalk.gray(`📝 Test file: ${testFile}`));
-  console.log(chalk.gray(`⚡ Bypass validation: ${bypassValidation}`));
+  log.info(chalk.blue(`🔧 Processing ${newTests.length} test(s)...`));
+  log.debug(chalk.gray(`📝 Test file: ${testFile}`));
+  log.debug(chalk.gray(`⚡ Bypass validation: ${bypassValidation}`));
   
-  let results: { name: string, verdict: string }[] = [];
+  let results: TestResult[] = [];
+  const includeSearch = await testIncludeSearch(cfg);
 
   for (let i = 0; i < newTests.length; i++) {
     const newTest = newTests[i];
-    console.log(chalk.blue(`\n📝 Processing test ${i + 1}/${newTests.length}: ${newTest.name}`));
+    log.info(chalk.blue(`\n📝 Processing test ${i + 1}/${newTests.length}: ${newTest.name}`));
     
     if (bypassValidation) {
       // Directly append to main test file without validation
-      console.log(chalk.gray('  ⚡ Bypassing validation - directly appending test'));
-      await appendTest(testFile, newTest, cfg.srcFile);
-      console.log(chalk.green(`  ✅ Test "${newTest.name}" appended successfully`));
+      log.debug(chalk.gray('  ⚡ Bypassing validation - directly appending test'));
+      if (await appendTest(testFile, newTest, cfg.srcFile, includeSearch, cfg.build?.framework, cfg.tx) === 'duplicate') {
+        results.push({ name: newTest.name, verdict: 'skipped' });
+        continue;
+      }
+      log.info(chalk.green(`  ✅ Test "${newTest.name}" appended successfully`));
       results.push({ name: newTest.name, verdict: 'pass' });
     } else {
-      // Use replica approach for validation
-      console.log(chalk.gray('  🔄 Using replica approach for validation'));
-
-      const ext = path.extname(testFile);                         // e.g., '.cpp'
-      const base = testFile.slice(0, -ext.length);                // 'foo_test'
-      const replicaPath = `${base}.replica${ext}`;               
-      console.log(chalk.gray(`  📂 Replica path: ${replicaPath}`));
-
-      // Copy the current test file to the replica
-      if (fsx.exists(testFile)) {
-        console.log(chalk.gray('  📋 Copying existing test file to replica'));
-        await fsp.copyFile(testFile, replicaPath);
-      } else {
-        console.log(chalk.gray('  📋 Creating new replica file'));
-        await fsp.writeFile(replicaPath, '', 'utf8');
+      // Validate the test in a replica by compiling and running only the new test
+      log.trace(chalk.gray('  🔄 Using replica approach for validation'));
+      const checked = await validateCandidate(testFile, newTest, cfg, includeSearch, signal, fix);
+      if (!checked) {
+        // Already in the test file: nothing to validate
+        results.push({ name: newTest.name, verdict: 'skipped' });
+        continue;
       }
 
-      // Append the new test to the replica
-      console.log(chalk.gray('  📝 Appending test to replica'));
-      await appendTest(replicaPath, newTest, cfg.srcFile);
-
-      // Validate the replica by compiling and running
-      console.log(chalk.gray('  🔨 Validating replica by compiling and running'));
-      let compiled;
-      if ((cfg as any).gpp) {
-        compiled = await compileAndRun({ root: cfg.root, testFile: replicaPath, srcFile: cfg.srcFile, mode: 'g++' }, signal);
-      } else {
-        compiled = await compileAndRun({ root: cfg.root, testTarget: 'ut_bin' }, signal);
+      const { compiled, verdict, fixed, fixAttempts } = checked;
+      if (verdict.preexistingFailures.length) {
+        log.warn(chalk.yellow(`  ⚠️  Already failing: ${verdict.preexistingFailures.join(', ')}`));
       }
 
-      if (compiled.success) {
+      if (verdict.pass) {
         // Commit: write the replica back to the main test file
-        console.log(chalk.gray('  ✅ Validation passed - committing changes'));
-        const replicaContent = await fsx.read(replicaPath);
-        await fsx.write(testFile, replicaContent);
-        console.log(chalk.green(`  ✅ Test "${newTest.name}" validated and committed`));
-        results.push({ name: newTest.name, verdict: 'pass' });
+        await writeThrough(cfg.tx, testFile, checked.content);
+        log.info(chalk.green(`  ✅ ${fixed ? 'Fixed test' : 'Test'} "${newTest.name}" validated and committed`));
+        results.push({ name: newTest.name, verdict: 'pass', fixed, fixAttempts, isolated: 'pass', preexistingFailures: verdict.preexistingFailures });
       } else {
-        console.log(chalk.red(`  ❌ Test "${newTest.name}" failed validation`));
-        results.push({ name: newTest.name, verdict: 'fail' });
+        log.info(chalk.red(`  ❌ Test "${newTest.name}" failed validation`));
+        results.push({
+          name: newTest.name,
+          verdict: 'fail',
+          isolated: 'fail',
+          code: newTest.code,
+          fixAttempts,
+          diagnostics: compiled.diagnostics,
+          failures: verdict.failures,
+          preexistingFailures: verdict.preexistingFailures
+        });
       }
-
-      // Clean up replica
-      console.log(chalk.gray('  🧹 Cleaning up replica file'));
-      await fsp.rm(replicaPath, { force: true });
     }
   }
 
-  console.log(chalk.blue('\n📊 Processing complete'));
+  if (cfg.regression && !bypassValidation && results.some(r => r.verdict === 'pass')) {
+    await runRegression(testFile, newTests, results, cfg, signal);
+  }
+
+  log.info(chalk.blue('\n📊 Processing complete'));
   return results;
 } 
\ No newline at end of file
@@ -0,0 +1,94 @@
+type Op = { kind: ' ' | '-' | '+'; line: string; ai: number; bi: number };
+
+const NO_EOL = '\\ No newline at end of file';
+
+function toLines(text: string): { lines: string[]; eol: boolean } {
+  if (text === '') return { lines: [], eol: true };
+  const eol = text.endsWith('\n');
+  const lines = (eol ? text.slice(0, -1) : text).split('\n');
+  return { lines, eol };
+}
+
+/**
+ * Line diff via longest common subsequence. Test files are small, so the
+ * O(n·m) table is fine.
+ */
+function diffLines(a: string[], b: string[]): Op[] {
+  const n = a.length, m = b.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const ops: Op[] = [];
+  let i = 0, j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) { ops.push({ kind: ' ', line: a[i], ai: i, bi: j }); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) { ops.push({ kind: '-', line: a[i], ai: i, bi: j }); i++; }
+    else { ops.push({ kind: '+', line: b[j], ai: i, bi: j }); j++; }
+  }
+  while (i < n) { ops.push({ kind: '-', line: a[i], ai: i, bi: j }); i++; }
+  while (j < m) { ops.push({ kind: '+', line: b[j], ai: i, bi: j }); j++; }
+  return ops;
+}
+
+/**
+ * Produce a unified diff (as understood by `patch`/`git apply`).
+ * @returns Empty string when both texts are identical
+ */
+export function unifiedDiff(before: string, after: string, fromLabel: string, toLabel: string, context = 3): string {
+  if (before === after) return '';
+  const A = toLines(before);
+  const B = toLines(after);
+  const a = A.lines, b = B.lines;
+  const ops = diffLines(a, b);
+
+  // a missing final newline counts as a change of the last line
+  if (A.eol !== B.eol) {
+    for (const o of ops) {
+      if (o.kind === ' ' && (o.ai === a.length - 1 || o.bi === b.length - 1)) {
+        const idx = ops.indexOf(o);
+        ops.splice(idx, 1,
+          { kind: '-', line: o.line, ai: o.ai, bi: o.bi },
+          { kind: '+', line: o.line, ai: o.ai + 1, bi: o.bi });
+        break;
+      }
+    }
+  }
+
+  const out = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].kind === ' ') { k++; continue; }
+
+    // grow the hunk until `context` unchanged lines separate it from the next change
+    let s = Math.max(0, k - context);
+    let e = k;
+    while (e < ops.length) {
+      if (ops[e].kind !== ' ') { e++; continue; }
+      let run = 0;
+      while (e + run < ops.length && ops[e + run].kind === ' ') run++;
+      if (e + run >= ops.length || run > context * 2) { e = Math.min(ops.length, e + context); break; }
+      e += run;
+    }
+
+    let aStart = 1, bStart = 1;
+    for (let q = 0; q < s; q++) {
+      if (ops[q].kind !== '+') aStart++;
+      if (ops[q].kind !== '-') bStart++;
+    }
+    const hunk = ops.slice(s, e);
+    const aLen = hunk.filter(o => o.kind !== '+').length;
+    const bLen = hunk.filter(o => o.kind !== '-').length;
+    out.push(`@@ -${aLen ? aStart : aStart - 1},${aLen} +${bLen ? bStart : bStart - 1},${bLen} @@`);
+    for (const o of hunk) {
+      out.push(o.kind + o.line);
+      const lastOfA = o.kind !== '+' && o.ai === a.length - 1 && !A.eol;
+      const lastOfB = o.kind !== '-' && o.bi === b.length - 1 && !B.eol;
+      if (lastOfA || lastOfB) out.push(NO_EOL);
+    }
+    k = e;
+  }
+  return out.join('\n') + '\n';
+}
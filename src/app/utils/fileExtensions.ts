@@ -42,6 +42,27 @@ export function isCppHeaderFile(filePath: string): boolean {
   return CPP_HEADER_EXTENSIONS.includes(ext);
 }
 
+/**
+ * Check if a file looks like a test (or a scratch copy of one) by its name
+ * @param filePath Path to the file
+ * @param pattern  Test naming convention of the project, e.g. `{base}Test{ext}`
+ * @returns True for foo_test.cpp, test_foo.cpp, foo.test.cpp, names matching `pattern`,
+ *          fooTest.cpp inside a test(s) directory, and foo_test.replica.cpp / .fix
+ */
+export function isTestFile(filePath: string, pattern: string = '{base}_test{ext}'): boolean {
+  const name = path.basename(filePath, path.extname(filePath));
+  if (/\.(replica|fix)$/.test(name)) return true;
+  if (/(_test|\.test)$/.test(name) || /^test_/.test(name)) return true;
+
+  const [prefix, suffix] = path.basename(pattern).replace(/\{ext\}/g, '').split('{base}');
+  if (suffix !== undefined && (prefix || suffix) && name.length > prefix.length + suffix.length
+      && name.startsWith(prefix) && name.endsWith(suffix)) {
+    return true;
+  }
+  // LoadTest.cpp is an ordinary source unless it sits in a test directory
+  return /Test$/.test(name) && path.dirname(filePath).split(/[\\/]/).some(d => /^tests?$/i.test(d));
+}
+
 /**
  * Check if a file has any C++ extension (source or header)
  * @param filePath Path to the file
@@ -66,13 +87,14 @@ export function generateTestFileName(sourceFile: string): string {
 /**
  * Replace C++ source extension with test extension
  * @param sourceFile Path to the source file
+ * @param pattern    Test naming convention, `{base}` and `{ext}` are substituted
  * @returns Test file path with appropriate extension
  */
-export function replaceWithTestExtension(sourceFile: string): string {
+export function replaceWithTestExtension(sourceFile: string, pattern: string = '{base}_test{ext}'): string {
   const ext = path.extname(sourceFile);
   const base = getBaseName(sourceFile);
   const dir = path.dirname(sourceFile);
   
   // Use the same extension as the source file for the test file
-  return path.join(dir, `${base}_test${ext}`);
+  return path.join(dir, pattern.replace(/\{base\}/g, base).replace(/\{ext\}/g, ext));
 } 
\ No newline at end of file
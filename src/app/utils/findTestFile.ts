@@ -3,6 +3,7 @@ import { existsSync } from 'node:fs';
 import fg from 'fast-glob';
 import { getBaseName, CPP_TEST_EXTENSIONS } from './fileExtensions.js';
 import chalk from 'chalk';
+import { log } from './logger.js';
 
 /**
  * Try hard to guess the companion test file for a C++ source file.
@@ -14,16 +15,16 @@ export async function findTestFile(
   srcFile: string,
   rootDir: string
 ): Promise<string | undefined> {
-  console.log(chalk.gray(`  🔍 Searching for test file for: ${srcFile}`));
+  log.debug(chalk.gray(`  🔍 Searching for test file for: ${srcFile}`));
   
   const base   = getBaseName(srcFile);          // foo
   const dir    = path.dirname(srcFile);
   
-  console.log(chalk.gray(`  📁 Base name: ${base}`));
-  console.log(chalk.gray(`  📁 Directory: ${dir}`));
+  log.trace(chalk.gray(`  📁 Base name: ${base}`));
+  log.trace(chalk.gray(`  📁 Directory: ${dir}`));
 
   // Generate candidates for all test extensions
-  console.log(chalk.gray('  🔍 Checking conventional sibling files...'));
+  log.debug(chalk.gray('  🔍 Checking conventional sibling files...'));
   const directCandidates: string[] = [];
   for (const ext of CPP_TEST_EXTENSIONS) {
     directCandidates.push(
@@ -37,15 +38,15 @@ export async function findTestFile(
 
   for (const c of fullCandidates) {
     if (existsSync(c)) {
-      console.log(chalk.green(`  ✅ Found test file: ${c}`));
+      log.debug(chalk.green(`  ✅ Found test file: ${c}`));
       return c;
     }
   }
   
-  console.log(chalk.gray('  ⚠️  No conventional sibling test files found'));
+  log.debug(chalk.gray('  ⚠️  No conventional sibling test files found'));
 
   // ―― scan the repository (kept tiny & async with fast-glob) ----
-  console.log(chalk.gray('  🔍 Scanning repository for test files...'));
+  log.debug(chalk.gray('  🔍 Scanning repository for test files...'));
   const globPatterns: string[] = [];
   for (const ext of CPP_TEST_EXTENSIONS) {
     globPatterns.push(
@@ -61,10 +62,10 @@ export async function findTestFile(
   });
 
   if (hits.length > 0) {
-    console.log(chalk.green(`  ✅ Found test file in repository: ${hits[0]}`));
+    log.debug(chalk.green(`  ✅ Found test file in repository: ${hits[0]}`));
     return hits[0];                                 // first (best) match or undefined
   } else {
-    console.log(chalk.yellow('  ⚠️  No test files found in repository'));
+    log.debug(chalk.gray('  ⚠️  No test files found in repository'));
     return undefined;
   }
 }
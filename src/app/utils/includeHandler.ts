@@ -8,13 +8,26 @@ import {
   CPP_SOURCE_EXTENSIONS,
   CPP_HEADER_EXTENSIONS 
 } from './fileExtensions.js';
+import { SystemHeaderCheck, checkSystemInclude } from './systemHeaders.js';
+import { TestFramework, FRAMEWORKS } from '../compiler/framework.js';
 import chalk from 'chalk';
+import { log } from './logger.js';
 
 export interface IncludeInfo {
   path: string;
   exists: boolean;
   isSystem: boolean;
   isVerified: boolean;
+  reason?: string;         // why an existing-looking include is unusable
+  replacement?: string;    // nearest real header for an unresolved system include
+}
+
+/* Where includes are looked up, when the project's setup is known */
+export interface IncludeSearch {
+  root?: string;                // project root; its headers are indexed by symbol
+  includeDirs: string[];        // project search path (-I), absolute
+  system?: SystemHeaderCheck;   // verification of <...> includes
+  testFile?: string;            // includes are written for this file when the test is a staged copy
 }
 
 export interface IncludeResolutionResult {
@@ -124,12 +137,14 @@ async function findCorrespondingSource(headerFile: string): Promise<string | nul
  * @param includePath The include path from the statement
  * @param testFile The test file path
  * @param srcFile The source file being tested
+ * @param includeDirs The project's real include search path, when known
  * @returns Array of possible absolute paths to check
  */
 async function resolveIncludePaths(
   includePath: string, 
   testFile: string, 
-  srcFile: string
+  srcFile: string,
+  includeDirs?: string[]
 ): Promise<string[]> {
   const testDir = path.dirname(testFile);
   const srcDir = path.dirname(srcFile);
@@ -139,6 +154,11 @@ async function resolveIncludePaths(
   
   // Strategy 1: Direct path relative to test file
   candidates.push(path.join(testDir, includePath));
+
+  // With the compiler's search path there is nothing left to guess
+  if (includeDirs?.length) {
+    return [...candidates, ...includeDirs.map(dir => path.join(dir, includePath))];
+  }
   
   // Strategy 2: Path relative to source file
   candidates.push(path.join(srcDir, includePath));
@@ -180,12 +200,14 @@ async function resolveIncludePaths(
  * @param includeStatement The include statement to verify
  * @param testFile The test file path
  * @param srcFile The source file being tested
+ * @param search The project's real include search path, when known
  * @returns IncludeInfo with verification results
  */
 export async function verifyInclude(
   includeStatement: string,
   testFile: string,
-  srcFile: string
+  srcFile: string,
+  search?: IncludeSearch
 ): Promise<IncludeInfo> {
   const includePath = parseIncludePath(includeStatement);
   
@@ -200,18 +222,24 @@ export async function verifyInclude(
   
   const isSystem = isSystemInclude(includePath, includeStatement);
   
-  // For system includes, we assume they exist (compiler will handle)
+  // System includes are checked against the compiler's search path when
+  // it is known; otherwise we assume they exist (compiler will handle)
   if (isSystem) {
+    const verdict = search?.system
+      ? await checkSystemInclude(includePath, search.system, search.includeDirs)
+      : { ok: true };
     return {
       path: includePath,
-      exists: true,
+      exists: verdict.ok,
       isSystem: true,
-      isVerified: true
+      isVerified: true,
+      reason: verdict.reason,
+      replacement: verdict.replacement
     };
   }
   
   // For local includes, verify file existence
-  const candidates = await resolveIncludePaths(includePath, testFile, srcFile);
+  const candidates = await resolveIncludePaths(includePath, testFile, srcFile, search?.includeDirs);
   
   for (const candidate of candidates) {
     if (await fileExists(candidate)) {
@@ -252,15 +280,22 @@ export async function getCorrespondingFile(
 }
 
 /**
- * Generate the include statement for a file relative to the test file
+ * Generate the include statement for a file, relative to the include
+ * directory that reaches it with the shortest path, else to the test file
  * @param filePath The absolute path to the file to include
  * @param testFile The test file path
+ * @param includeDirs The project's real include search path, when known
  * @returns The include statement
  */
-export function generateIncludeStatement(filePath: string, testFile: string): string {
+export function generateIncludeStatement(filePath: string, testFile: string, includeDirs: string[] = []): string {
   const testDir = path.dirname(testFile);
-  const relativePath = path.relative(testDir, filePath);
-  return `#include "${relativePath}"`;
+  const candidates = [testDir, ...includeDirs]
+    .map(dir => path.relative(dir, path.resolve(filePath)))
+    .filter(rel => !rel.startsWith('..') && !path.isAbsolute(rel));
+  const relativePath = candidates.length
+    ? candidates.reduce((a, b) => (b.length < a.length ? b : a))
+    : path.relative(testDir, filePath);
+  return `#include "${relativePath.split(path.sep).join('/')}"`;
 }
 
 /**
@@ -268,12 +303,16 @@ export function generateIncludeStatement(filePath: string, testFile: string): st
  * @param includes Array of include statements from LLM
  * @param testFile The test file path
  * @param srcFile The source file being tested
+ * @param search The project's real include search path, when known
+ * @param framework Test framework whose header is added when missing
  * @returns Processed includes with verification results
  */
 export async function processIncludes(
   includes: string[],
   testFile: string,
-  srcFile: string
+  srcFile: string,
+  search?: IncludeSearch,
+  framework: TestFramework = FRAMEWORKS.gtest
 ): Promise<IncludeResolutionResult> {
   const result: IncludeResolutionResult = {
     includes: [],
@@ -281,30 +320,43 @@ export async function processIncludes(
     errors: []
   };
   
-  console.log(chalk.gray('  🔍 Processing and verifying includes...'));
+  log.debug(chalk.gray('  🔍 Processing and verifying includes...'));
   
   // Verify existing includes
   for (const include of includes) {
-    const info = await verifyInclude(include, testFile, srcFile);
+    const info = await verifyInclude(include, testFile, srcFile, search);
     
     if (info.isVerified) {
-      if (info.exists || info.isSystem) {
+      if (info.exists) {
         result.includes.push(include);
-        console.log(chalk.gray(`    ✅ ${include}`));
+        log.trace(chalk.gray(`    ✅ ${include}`));
+      } else if (info.isSystem) {
+        const policy = search?.system?.unresolved ?? 'replace';
+        if (policy === 'replace' && info.replacement) {
+          result.includes.push(`#include <${info.replacement}>`);
+          result.warnings.push(`${info.reason}; replaced with <${info.replacement}>`);
+          log.info(chalk.yellow(`    🔁 ${include} → <${info.replacement}> (${info.reason})`));
+        } else if (policy === 'error') {
+          result.errors.push(info.reason!);
+          log.warn(chalk.red(`    ❌ ${include} (${info.reason})`));
+        } else {
+          result.warnings.push(`${info.reason}; dropped`);
+          log.warn(chalk.yellow(`    ⚠️  ${include} dropped (${info.reason})`));
+        }
       } else {
         result.warnings.push(`Include file not found: ${info.path}`);
-        console.log(chalk.yellow(`    ⚠️  ${include} (file not found)`));
+        log.warn(chalk.yellow(`    ⚠️  ${include} (file not found)`));
       }
     } else {
       result.errors.push(`Invalid include format: ${include}`);
-      console.log(chalk.red(`    ❌ ${include} (invalid format)`));
+      log.warn(chalk.red(`    ❌ ${include} (invalid format)`));
     }
   }
   
   // Add corresponding header/source file if not already included
   const correspondingFile = await getCorrespondingFile(srcFile, testFile);
   if (correspondingFile) {
-    const correspondingInclude = generateIncludeStatement(correspondingFile, testFile);
+    const correspondingInclude = generateIncludeStatement(correspondingFile, testFile, search?.includeDirs);
     const baseName = getBaseName(correspondingFile);
     
     // Check if it's already included
@@ -314,20 +366,18 @@ export async function processIncludes(
     
     if (!alreadyIncluded) {
       result.includes.push(correspondingInclude);
-      console.log(chalk.blue(`    ➕ ${correspondingInclude} (auto-added)`));
+      log.debug(chalk.blue(`    ➕ ${correspondingInclude} (auto-added)`));
     } else {
-      console.log(chalk.gray(`    ✅ ${correspondingInclude} (already included)`));
+      log.trace(chalk.gray(`    ✅ ${correspondingInclude} (already included)`));
     }
   }
   
-  // Always include gtest if not present
-  const gtestIncluded = result.includes.some(inc => 
-    inc.includes('gtest/gtest.h') || inc.includes('gtest.h')
-  );
+  // Always include the test framework if not present
+  const frameworkIncluded = result.includes.some(inc => framework.detect.test(normalizeIncludes([inc])[0]));
   
-  if (!gtestIncluded) {
-    result.includes.push('#include <gtest/gtest.h>');
-    console.log(chalk.blue(`    ➕ #include <gtest/gtest.h> (auto-added)`));
+  if (!frameworkIncluded) {
+    result.includes.push(`#include ${framework.include}`);
+    log.debug(chalk.blue(`    ➕ #include ${framework.include} (auto-added)`));
   }
   
   return result;
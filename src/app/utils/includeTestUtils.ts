@@ -9,6 +9,7 @@ import {
   deduplicateIncludes 
 } from './includeHandler.js';
 import chalk from 'chalk';
+import { log } from './logger.js';
 
 /**
  * Test utility to demonstrate enhanced include handling
@@ -20,7 +21,7 @@ export class IncludeTestUtils {
    * @param testDir Directory to create the test project in
    */
   static async createTestProject(testDir: string): Promise<void> {
-    console.log(chalk.blue('🔧 Creating test project structure...'));
+    log.info(chalk.blue('🔧 Creating test project structure...'));
     
     const projectStructure = {
       'src': {
@@ -99,7 +100,7 @@ TEST(CalculatorTest, Addition) {
     };
     
     await this.createDirectoryStructure(testDir, projectStructure);
-    console.log(chalk.green('✅ Test project structure created'));
+    log.info(chalk.green('✅ Test project structure created'));
   }
   
   /**
@@ -129,7 +130,7 @@ TEST(CalculatorTest, Addition) {
    * @param testDir Test project directory
    */
   static async demonstrateIncludeVerification(testDir: string): Promise<void> {
-    console.log(chalk.blue('\n🔍 Demonstrating include verification...'));
+    log.info(chalk.blue('\n🔍 Demonstrating include verification...'));
     
     const testFile = path.join(testDir, 'tests/math/calculator_test.cpp');
     const srcFile = path.join(testDir, 'src/math/calculator.cpp');
@@ -146,7 +147,7 @@ TEST(CalculatorTest, Addition) {
     for (const include of testIncludes) {
       const info = await verifyInclude(include, testFile, srcFile);
       const status = info.exists ? '✅' : info.isSystem ? '🔧' : '❌';
-      console.log(`${status} ${include} - ${info.exists ? 'exists' : info.isSystem ? 'system' : 'not found'}`);
+      log.info(`${status} ${include} - ${info.exists ? 'exists' : info.isSystem ? 'system' : 'not found'}`);
     }
   }
   
@@ -155,7 +156,7 @@ TEST(CalculatorTest, Addition) {
    * @param testDir Test project directory
    */
   static async demonstrateAutoIncludeAddition(testDir: string): Promise<void> {
-    console.log(chalk.blue('\n➕ Demonstrating automatic include addition...'));
+    log.info(chalk.blue('\n➕ Demonstrating automatic include addition...'));
     
     const testFile = path.join(testDir, 'tests/math/calculator_test.cpp');
     const srcFile = path.join(testDir, 'src/math/calculator.cpp');
@@ -165,17 +166,17 @@ TEST(CalculatorTest, Addition) {
       '#include <iostream>'
     ];
     
-    console.log(chalk.gray('Input includes:'));
-    minimalIncludes.forEach(inc => console.log(chalk.gray(`  ${inc}`)));
+    log.info(chalk.gray('Input includes:'));
+    minimalIncludes.forEach(inc => log.info(chalk.gray(`  ${inc}`)));
     
     const result = await processIncludes(minimalIncludes, testFile, srcFile);
     
-    console.log(chalk.gray('\nProcessed includes:'));
-    result.includes.forEach(inc => console.log(chalk.green(`  ${inc}`)));
+    log.info(chalk.gray('\nProcessed includes:'));
+    result.includes.forEach(inc => log.info(chalk.green(`  ${inc}`)));
     
     if (result.warnings.length > 0) {
-      console.log(chalk.yellow('\nWarnings:'));
-      result.warnings.forEach(warning => console.log(chalk.yellow(`  ${warning}`)));
+      log.info(chalk.yellow('\nWarnings:'));
+      result.warnings.forEach(warning => log.info(chalk.yellow(`  ${warning}`)));
     }
   }
   
@@ -184,7 +185,7 @@ TEST(CalculatorTest, Addition) {
    * @param testDir Test project directory
    */
   static async demonstrateCorrespondingFileDetection(testDir: string): Promise<void> {
-    console.log(chalk.blue('\n🔗 Demonstrating corresponding file detection...'));
+    log.info(chalk.blue('\n🔗 Demonstrating corresponding file detection...'));
     
     const testFile = path.join(testDir, 'tests/math/calculator_test.cpp');
     
@@ -198,7 +199,7 @@ TEST(CalculatorTest, Addition) {
     for (const file of testFiles) {
       const corresponding = await getCorrespondingFile(file, testFile);
       const status = corresponding ? '✅' : '❌';
-      console.log(`${status} ${path.relative(testDir, file)} -> ${corresponding ? path.relative(testDir, corresponding) : 'none'}`);
+      log.info(`${status} ${path.relative(testDir, file)} -> ${corresponding ? path.relative(testDir, corresponding) : 'none'}`);
     }
   }
   
@@ -206,7 +207,7 @@ TEST(CalculatorTest, Addition) {
    * Demonstrate include normalization and deduplication
    */
   static demonstrateNormalizationAndDeduplication(): void {
-    console.log(chalk.blue('\n🔧 Demonstrating include normalization and deduplication...'));
+    log.info(chalk.blue('\n🔧 Demonstrating include normalization and deduplication...'));
     
     const rawIncludes = [
       'gtest/gtest.h',
@@ -218,16 +219,16 @@ TEST(CalculatorTest, Addition) {
       '#include "calculator.h"'
     ];
     
-    console.log(chalk.gray('Raw includes:'));
-    rawIncludes.forEach(inc => console.log(chalk.gray(`  ${inc}`)));
+    log.info(chalk.gray('Raw includes:'));
+    rawIncludes.forEach(inc => log.info(chalk.gray(`  ${inc}`)));
     
     const normalized = normalizeIncludes(rawIncludes);
-    console.log(chalk.gray('\nNormalized includes:'));
-    normalized.forEach(inc => console.log(chalk.blue(`  ${inc}`)));
+    log.info(chalk.gray('\nNormalized includes:'));
+    normalized.forEach(inc => log.info(chalk.blue(`  ${inc}`)));
     
     const deduplicated = deduplicateIncludes(normalized);
-    console.log(chalk.gray('\nDeduplicated includes:'));
-    deduplicated.forEach(inc => console.log(chalk.green(`  ${inc}`)));
+    log.info(chalk.gray('\nDeduplicated includes:'));
+    deduplicated.forEach(inc => log.info(chalk.green(`  ${inc}`)));
   }
   
   /**
@@ -235,13 +236,13 @@ TEST(CalculatorTest, Addition) {
    * @param testDir Test project directory
    */
   static async runAllDemonstrations(testDir: string): Promise<void> {
-    console.log(chalk.blue('🚀 Running enhanced include handling demonstrations...'));
+    log.info(chalk.blue('🚀 Running enhanced include handling demonstrations...'));
     
     await this.demonstrateIncludeVerification(testDir);
     await this.demonstrateAutoIncludeAddition(testDir);
     await this.demonstrateCorrespondingFileDetection(testDir);
     this.demonstrateNormalizationAndDeduplication();
     
-    console.log(chalk.green('\n✅ All demonstrations completed!'));
+    log.info(chalk.green('\n✅ All demonstrations completed!'));
   }
 } 
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { stripVTControlCharacters } from 'node:util';
+import chalk, { supportsColorStderr } from 'chalk';
+
+/* Most to least severe; a level shows itself and everything above it */
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug', 'trace'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export const LOG_FORMATS = ['text', 'json'] as const;
+export type LogFormat = typeof LOG_FORMATS[number];
+
+export interface LoggerOptions {
+  level?: LogLevel;     // default: info
+  format?: LogFormat;   // default: text
+}
+
+let threshold = LOG_LEVELS.indexOf('info');
+let format: LogFormat = 'text';
+
+/**
+ * Set the level and format of all log output. Logs go to stderr so
+ * stdout carries only a command's payload (a prompt, a reply, a diff)
+ * and can be piped; colors follow whether stderr is a terminal.
+ */
+export function configureLogger(options: LoggerOptions): void {
+  threshold = LOG_LEVELS.indexOf(options.level ?? 'info');
+  format = options.format ?? 'text';
+  chalk.level = format === 'json' || !supportsColorStderr ? 0 : supportsColorStderr.level;
+}
+
+function write(level: LogLevel, message: string, fields?: Record<string, unknown>): void {
+  if (LOG_LEVELS.indexOf(level) > threshold) return;
+  if (format === 'text') {
+    process.stderr.write(`${message}\n`);
+    return;
+  }
+  const msg = stripVTControlCharacters(message).trim();
+  // Blank lines and ─── rules only space out the text format
+  if (/^[\s─]*$/.test(msg) && !fields) return;
+  process.stderr.write(JSON.stringify({ time: new Date().toISOString(), level, msg, ...fields }) + '\n');
+}
+
+/*
+ * The shared logger. Messages keep their emoji and chalk colors for the
+ * terminal; the JSON format strips the colors and adds `fields` to the
+ * record.
+ */
+export const log = {
+  error: (message: string, fields?: Record<string, unknown>) => write('error', message, fields),
+  warn : (message: string, fields?: Record<string, unknown>) => write('warn', message, fields),
+  info : (message: string, fields?: Record<string, unknown>) => write('info', message, fields),
+  debug: (message: string, fields?: Record<string, unknown>) => write('debug', message, fields),
+  trace: (message: string, fields?: Record<string, unknown>) => write('trace', message, fields),
+};
@@ -0,0 +1,236 @@
+import { createInterface, Interface } from 'node:readline';
+import { spawn } from 'node:child_process';
+import { once } from 'node:events';
+import { promises as fsp } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import yaml from 'js-yaml';
+import chalk from 'chalk';
+import { appendTest, findDuplicate } from './appendTest.js';
+import { fsx } from './fsx.js';
+import { writeThrough } from './transaction.js';
+import { NewTestYaml } from '../prompt/schema.js';
+import { validateReply, formatDiagnostics } from '../prompt/validate.js';
+import {
+  TestResult,
+  ReviewOutcome,
+  ValidationCfg,
+  CandidateCheck,
+  validateCandidate,
+  runRegression,
+  testIncludeSearch
+} from './applyAndValidateTests.js';
+import { log } from './logger.js';
+
+/* Asks the LLM to rewrite one test as the reviewer's comment says */
+export type Regenerate = (test: NewTestYaml, comment: string) => Promise<NewTestYaml | undefined>;
+
+const CHOICES = '[a]ccept, [r]eject, [e]dit, [g]enerate again, [q]uit';
+
+/* The review is a conversation, not log output: shown at any log level, on stderr with the questions */
+const show = (text: string) => process.stderr.write(`${text}\n`);
+
+/**
+ * Show a generated test the way the reviewer decides on it: name, goal,
+ * includes, code and the validation verdict.
+ */
+function showTest(test: NewTestYaml, index: number, total: number, checked: CandidateCheck | undefined) {
+  show(chalk.blue(`\n${'─'.repeat(50)}\n🧪 Test ${index + 1}/${total}: ${test.name}`));
+  show(chalk.gray(`   Goal: ${test.goal}`));
+  if (test.includes?.length) show(chalk.gray(`   Includes: ${test.includes.join(', ')}`));
+  for (const [label, text] of [['Fixture', test.fixture], ['Code', test.code], ['Params', test.params]]) {
+    if (!text) continue;
+    show(chalk.gray(`   ${label}:`));
+    show(text.trimEnd().split('\n').map(l => `     ${l}`).join('\n'));
+  }
+  if (!checked) {
+    show(chalk.gray('   Verdict: not validated (bypassValidation)'));
+  } else if (checked.verdict.pass) {
+    show(chalk.green('   Verdict: ✅ compiles and passes'));
+  } else {
+    show(chalk.red('   Verdict: ❌ fails'));
+    for (const d of (checked.compiled.diagnostics ?? []).filter(d => d.severity !== 'warning')) {
+      show(chalk.gray(`     ${d.line ? `line ${d.line}: ` : ''}${d.severity}: ${d.message}`));
+    }
+    for (const f of checked.verdict.failures) {
+      show(chalk.gray(`     ${f.line ? `line ${f.line}: ` : ''}${f.message.split('\n')[0]}`));
+    }
+  }
+}
+
+/**
+ * Open the test as YAML in $VISUAL / $EDITOR and read it back.
+ * @returns The edited test, or undefined if it is no longer valid
+ */
+async function editTest(rl: Interface, test: NewTestYaml): Promise<NewTestYaml | undefined> {
+  const dir = await fsp.mkdtemp(path.join(tmpdir(), 'review-'));
+  const file = path.join(dir, `${test.name.replace(/\W+/g, '_')}.yaml`);
+  await fsx.write(file, yaml.dump(test, { lineWidth: -1 }));
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  rl.pause();
+  try {
+    const child = spawn(`${editor} ${JSON.stringify(file)}`, { shell: true, stdio: 'inherit' });
+    const [code] = await once(child, 'exit');
+    if (code !== 0) {
+      log.warn(chalk.red(`  ❌ ${editor} exited with ${code}, edit discarded`));
+      return undefined;
+    }
+    const edited = yaml.load(await fsx.read(file));
+    const problems = validateReply({ tests: [edited] });
+    if (problems.length) {
+      log.warn(chalk.red(`  ❌ Edited test is invalid, edit discarded:\n${formatDiagnostics(problems)}`));
+      return undefined;
+    }
+    return edited as NewTestYaml;
+  } catch (err: unknown) {
+    log.warn(chalk.red(`  ❌ Edit failed: ${err instanceof Error ? err.message : String(err)}`));
+    return undefined;
+  } finally {
+    rl.resume();
+    await fsp.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Read answers line by line. Lines typed (or piped) ahead are kept for
+ * the next question, end of input answers `q`.
+ */
+function answers(rl: Interface, signal: AbortSignal): (question: string) => Promise<string> {
+  const queued: string[] = [];
+  let pending: { resolve: (line: string) => void; reject: (reason: unknown) => void } | undefined;
+  let closed = false;
+  const take = (line: string) => {
+    if (!pending) return queued.push(line);
+    const { resolve } = pending;
+    pending = undefined;
+    resolve(line);
+  };
+  rl.on('line', take);
+  rl.on('close', () => { closed = true; if (pending) take('q'); });
+  // Ctrl+C reaches the command's own handler, which aborts `signal`
+  rl.on('SIGINT', () => process.emit('SIGINT', 'SIGINT'));
+  signal.addEventListener('abort', () => {
+    const waiting = pending;
+    pending = undefined;
+    waiting?.reject(signal.reason);
+  }, { once: true });
+
+  return question => {
+    rl.setPrompt(question);
+    rl.prompt();
+    if (queued.length) return Promise.resolve(queued.shift()!);
+    if (closed) return Promise.resolve('q');
+    if (signal.aborted) return Promise.reject(signal.reason);
+    return new Promise((resolve, reject) => { pending = { resolve, reject }; });
+  };
+}
+
+/**
+ * Let the user review each generated test before it reaches the test
+ * file: accept it, reject it, edit it in $EDITOR, or have the LLM
+ * regenerate it from a comment. Edited and regenerated tests are
+ * validated (unless bypassed) and shown again.
+ * @returns One result per test; rejected tests have the verdict `rejected`
+ */
+export async function reviewTests({
+  testFile,
+  newTests,
+  cfg,
+  signal,
+  bypassValidation = true,
+  regenerate
+}: {
+  testFile: string,
+  newTests: NewTestYaml[],
+  cfg: ValidationCfg,
+  signal: AbortSignal,
+  bypassValidation?: boolean,
+  regenerate: Regenerate
+}): Promise<TestResult[]> {
+  log.info(chalk.blue(`🔍 Reviewing ${newTests.length} test(s)...`));
+  const includeSearch = await testIncludeSearch(cfg);
+  const results: TestResult[] = [];
+  const accepted: NewTestYaml[] = [];
+
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  const ask = answers(rl, signal);
+
+  try {
+    review: for (let i = 0; i < newTests.length; i++) {
+      let test = newTests[i];
+      let outcome: ReviewOutcome = 'accepted';
+      const duplicate = findDuplicate(await fsx.readIfExists(testFile) ?? '', test);
+      if (duplicate) {
+        log.warn(chalk.yellow(`  ⚠️  Test "${test.name}" already exists (${duplicate.macro} at line ${duplicate.startLine}) - skipping`));
+        results.push({ name: test.name, verdict: 'skipped' });
+        continue;
+      }
+      let checked = bypassValidation ? undefined : await validateCandidate(testFile, test, cfg, includeSearch, signal);
+
+      while (true) {
+        showTest(test, i, newTests.length, checked);
+        const answer = (await ask(chalk.cyan(`  ${CHOICES}: `))).trim().toLowerCase();
+
+        if (answer === 'a') {
+          if (checked) await writeThrough(cfg.tx, testFile, checked.content);
+          else await appendTest(testFile, test, cfg.srcFile, includeSearch, cfg.build?.framework, cfg.tx);
+          const pass = !checked || checked.verdict.pass;
+          log.info(chalk.green(`  ✅ Test "${test.name}" written to ${testFile}`));
+          accepted.push(test);
+          results.push({
+            name: test.name,
+            verdict: pass ? 'pass' : 'fail',
+            review: outcome,
+            goal: test.goal,
+            code: outcome === 'accepted' ? undefined : test.code,
+            ...(checked && {
+              isolated: pass ? 'pass' : 'fail',
+              diagnostics: pass ? undefined : checked.compiled.diagnostics,
+              failures: pass ? undefined : checked.verdict.failures,
+              preexistingFailures: checked.verdict.preexistingFailures
+            })
+          });
+          break;
+        }
+        if (answer === 'r' || answer === 'q') {
+          log.info(chalk.gray(`  ⏭️  Test "${test.name}" rejected`));
+          results.push({ name: test.name, verdict: 'rejected', review: 'rejected' });
+          if (answer === 'q') {
+            for (const rest of newTests.slice(i + 1)) results.push({ name: rest.name, verdict: 'rejected', review: 'rejected' });
+            break review;
+          }
+          break;
+        }
+
+        let next: NewTestYaml | undefined;
+        if (answer === 'e') {
+          next = await editTest(rl, test);
+          if (next) outcome = 'edited';
+        } else if (answer === 'g') {
+          const comment = (await ask(chalk.cyan('  Comment for the LLM: '))).trim();
+          log.info(chalk.blue(`  🤖 Asking LLM to regenerate "${test.name}"...`));
+          next = await regenerate(test, comment || 'Write this test differently.');
+          if (next) outcome = 'regenerated';
+          else log.warn(chalk.yellow('  ⚠️  LLM returned no test, keeping the current one'));
+        } else {
+          log.warn(chalk.yellow(`  ⚠️  Unknown choice "${answer}"`));
+          continue;
+        }
+        if (!next) continue;
+        if (findDuplicate(await fsx.readIfExists(testFile) ?? '', next)) {
+          log.warn(chalk.yellow(`  ⚠️  The test file already has "${next.name}", keeping the current one`));
+          continue;
+        }
+        test = next;
+        checked = bypassValidation ? undefined : await validateCandidate(testFile, test, cfg, includeSearch, signal);
+      }
+    }
+  } finally {
+    rl.close();
+  }
+
+  if (cfg.regression && !bypassValidation && results.some(r => r.verdict === 'pass')) {
+    await runRegression(testFile, accepted, results, cfg, signal);
+  }
+  return results;
+}
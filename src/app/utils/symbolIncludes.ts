@@ -0,0 +1,199 @@
+import { promises as fsp } from 'node:fs';
+import path from 'node:path';
+import fg from 'fast-glob';
+import { maskCode } from './testBlocks.js';
+import { IncludeSearch, generateIncludeStatement } from './includeHandler.js';
+
+/* std:: names and the standard header that declares them */
+export const STD_SYMBOLS: Record<string, string> = {
+  // containers
+  vector: 'vector', array: 'array', deque: 'deque', list: 'list', forward_list: 'forward_list',
+  map: 'map', multimap: 'map', set: 'set', multiset: 'set',
+  unordered_map: 'unordered_map', unordered_multimap: 'unordered_map',
+  unordered_set: 'unordered_set', unordered_multiset: 'unordered_set',
+  queue: 'queue', priority_queue: 'queue', stack: 'stack', span: 'span', bitset: 'bitset',
+  // strings and streams
+  string: 'string', wstring: 'string', to_string: 'string', stoi: 'string', stol: 'string',
+  stod: 'string', getline: 'string', string_view: 'string_view',
+  stringstream: 'sstream', istringstream: 'sstream', ostringstream: 'sstream',
+  cout: 'iostream', cerr: 'iostream', cin: 'iostream', endl: 'ostream', ostream: 'ostream',
+  istream: 'istream', ifstream: 'fstream', ofstream: 'fstream', fstream: 'fstream',
+  setw: 'iomanip', setprecision: 'iomanip', format: 'format',
+  // vocabulary types
+  optional: 'optional', nullopt: 'optional', make_optional: 'optional',
+  variant: 'variant', get_if: 'variant', holds_alternative: 'variant', visit: 'variant',
+  any: 'any', any_cast: 'any', expected: 'expected', unexpected: 'expected',
+  pair: 'utility', make_pair: 'utility', move: 'utility', forward: 'utility', swap: 'utility',
+  tuple: 'tuple', make_tuple: 'tuple', tie: 'tuple', get: 'tuple',
+  function: 'functional', bind: 'functional', ref: 'functional', cref: 'functional',
+  hash: 'functional', less: 'functional', greater: 'functional',
+  initializer_list: 'initializer_list',
+  // memory
+  unique_ptr: 'memory', shared_ptr: 'memory', weak_ptr: 'memory',
+  make_unique: 'memory', make_shared: 'memory', allocator: 'memory',
+  // algorithms and numerics
+  sort: 'algorithm', stable_sort: 'algorithm', find: 'algorithm', find_if: 'algorithm',
+  count: 'algorithm', count_if: 'algorithm', copy: 'algorithm', transform: 'algorithm',
+  reverse: 'algorithm', min: 'algorithm', max: 'algorithm', min_element: 'algorithm',
+  max_element: 'algorithm', all_of: 'algorithm', any_of: 'algorithm', none_of: 'algorithm',
+  equal: 'algorithm', fill: 'algorithm', unique: 'algorithm', remove_if: 'algorithm',
+  clamp: 'algorithm', is_sorted: 'algorithm', lower_bound: 'algorithm', upper_bound: 'algorithm',
+  accumulate: 'numeric', iota: 'numeric', reduce: 'numeric', inner_product: 'numeric',
+  numeric_limits: 'limits',
+  sqrt: 'cmath', pow: 'cmath', fabs: 'cmath', floor: 'cmath', ceil: 'cmath', round: 'cmath',
+  isnan: 'cmath', isinf: 'cmath', abs: 'cmath',
+  back_inserter: 'iterator', begin: 'iterator', end: 'iterator', distance: 'iterator',
+  next: 'iterator', prev: 'iterator', advance: 'iterator',
+  // errors
+  exception: 'exception', runtime_error: 'stdexcept', logic_error: 'stdexcept',
+  invalid_argument: 'stdexcept', out_of_range: 'stdexcept', length_error: 'stdexcept',
+  domain_error: 'stdexcept', overflow_error: 'stdexcept', underflow_error: 'stdexcept',
+  range_error: 'stdexcept', system_error: 'system_error', error_code: 'system_error',
+  bad_alloc: 'new', bad_optional_access: 'optional', bad_variant_access: 'variant',
+  // types and utilities
+  size_t: 'cstddef', ptrdiff_t: 'cstddef', nullptr_t: 'cstddef', byte: 'cstddef',
+  int8_t: 'cstdint', int16_t: 'cstdint', int32_t: 'cstdint', int64_t: 'cstdint',
+  uint8_t: 'cstdint', uint16_t: 'cstdint', uint32_t: 'cstdint', uint64_t: 'cstdint',
+  intptr_t: 'cstdint', uintptr_t: 'cstdint',
+  is_same: 'type_traits', is_same_v: 'type_traits', decay_t: 'type_traits',
+  enable_if_t: 'type_traits', remove_cv_t: 'type_traits', is_base_of: 'type_traits',
+  memcpy: 'cstring', strlen: 'cstring', strcmp: 'cstring', memset: 'cstring',
+  // concurrency and time
+  thread: 'thread', this_thread: 'thread', mutex: 'mutex', lock_guard: 'mutex',
+  unique_lock: 'mutex', scoped_lock: 'mutex', condition_variable: 'condition_variable',
+  atomic: 'atomic', future: 'future', promise: 'future', async: 'future',
+  chrono: 'chrono', filesystem: 'filesystem', regex: 'regex', regex_match: 'regex',
+  mt19937: 'random', uniform_int_distribution: 'random', random_device: 'random',
+};
+
+const HEADER_GLOB = '**/*.{h,hh,hpp,hxx}';
+const IGNORE = ['**/build/**', '**/cmake-build*/**', '**/node_modules/**', '**/.git/**', '**/third_party/**'];
+const MAX_HEADERS = 2000;
+
+const TYPE_RX = /\b(?:class|struct|union|enum(?:\s+class|\s+struct)?)\s+(?:\[\[[^\]]*\]\]\s*)?(?:[A-Z][A-Z0-9_]*\s+)?([A-Za-z_]\w*)\s*(?:final\s*)?(?::[^;{]*)?\{/g;
+const ALIAS_RX = /\busing\s+([A-Za-z_]\w*)\s*=|\btypedef\b[^;{}]*?\b([A-Za-z_]\w*)\s*;/g;
+const FUNC_RX = /(?:^|[;{}\n])\s*(?:template\s*<[^;{}]*>\s*)?(?:(?:inline|static|constexpr|extern|virtual|explicit|\[\[\w+\]\])\s+)*[\w:<>,*&\s]*?[\w>*&]\s+[*&]*([A-Za-z_]\w*)\s*\([^;{}]*\)\s*(?:const\s*)?(?:noexcept\s*)?(?:->\s*[\w:<>*&\s]+)?\s*(?=[;{])/g;
+const KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'return', 'sizeof', 'operator', 'decltype', 'catch']);
+
+/* symbol → headers declaring it, per indexed directory */
+const indexCache = new Map<string, Promise<Map<string, string[]>>>();
+
+/**
+ * Namespace-scope names declared in a header: classes, structs, enums,
+ * aliases and free functions. Members of classes are not listed.
+ */
+export function scanDeclarations(src: string): string[] {
+  const code = maskCode(src).replace(/^\s*#.*$/gm, m => ' '.repeat(m.length));
+
+  // Ranges of non-namespace braces (class bodies, function bodies, ...)
+  const closed: [number, number][] = [];
+  const stack: { at: number; ns: boolean }[] = [];
+  let stmt = 0;
+  for (let i = 0; i < code.length; i++) {
+    const c = code[i];
+    if (c === '{') {
+      const head = code.slice(stmt, i);
+      stack.push({ at: i, ns: /\bnamespace\b/.test(head) || /\bextern\s*$/.test(head) });
+      stmt = i + 1;
+    } else if (c === '}') {
+      const open = stack.pop();
+      if (open && !open.ns) closed.push([open.at, i]);
+      stmt = i + 1;
+    } else if (c === ';') {
+      stmt = i + 1;
+    }
+  }
+  const nested = (at: number) => closed.some(([a, b]) => at > a && at < b);
+
+  const names = new Set<string>();
+  for (const rx of [TYPE_RX, ALIAS_RX, FUNC_RX]) {
+    rx.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = rx.exec(code))) {
+      const name = m[1] ?? m[2];
+      const at = m.index + m[0].lastIndexOf(name);
+      if (name && !KEYWORDS.has(name) && !nested(at)) names.add(name);
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Index the project's headers by the names they declare.
+ */
+export function projectSymbolIndex(root: string): Promise<Map<string, string[]>> {
+  const key = path.resolve(root);
+  let index = indexCache.get(key);
+  if (!index) {
+    index = (async () => {
+      const out = new Map<string, string[]>();
+      const headers = (await fg(HEADER_GLOB, { cwd: key, absolute: true, ignore: IGNORE })).slice(0, MAX_HEADERS);
+      for (const header of headers) {
+        for (const name of scanDeclarations(await fsp.readFile(header, 'utf8'))) {
+          const list = out.get(name) ?? [];
+          list.push(header);
+          out.set(name, list);
+        }
+      }
+      return out;
+    })();
+    indexCache.set(key, index);
+  }
+  return index;
+}
+
+/**
+ * Identifiers the code refers to, split into `std::` names and the
+ * rest. Member accesses (`obj.size()`, `p->get()`) are not references.
+ */
+function usedNames(code: string): { std: Set<string>; other: Set<string> } {
+  const masked = maskCode(code);
+  const std = new Set<string>();
+  const other = new Set<string>();
+  for (const m of masked.matchAll(/\bstd\s*::\s*([A-Za-z_]\w*)/g)) std.add(m[1]);
+  for (const m of masked.matchAll(/(?<![.\w]|->|\bstd\s*::\s*)([A-Za-z_]\w*)/g)) other.add(m[1]);
+  return { std, other };
+}
+
+/**
+ * `#include` lines the test code needs but neither `present` nor the
+ * LLM's own list provides: standard headers for the `std::` names used,
+ * and project headers (under `search.root`) declaring the other names.
+ * A name declared in several headers is left alone unless one of them
+ * is already included.
+ */
+export async function inferIncludes(
+  code: string,
+  testFile: string,
+  srcFile: string | undefined,
+  search: IncludeSearch | undefined,
+  present: string[]
+): Promise<string[]> {
+  const { std, other } = usedNames(code);
+  const have = present.map(p => p.replace(/^\s*#\s*include\s*/, '').trim());
+  const haveBase = new Set(have.map(h => path.basename(h.replace(/^[<"]|[>"]$/g, ''))));
+  const out: string[] = [];
+
+  for (const name of std) {
+    const header = STD_SYMBOLS[name];
+    if (header && !have.includes(`<${header}>`) && !out.includes(`#include <${header}>`)) {
+      out.push(`#include <${header}>`);
+    }
+  }
+
+  const root = search?.root ?? (srcFile ? path.dirname(srcFile) : undefined);
+  if (!root) return out;
+  const index = await projectSymbolIndex(root);
+  const local = new Set(scanDeclarations(code));
+
+  for (const name of other) {
+    const headers = index.get(name);
+    if (!headers || local.has(name)) continue;
+    if (headers.some(h => haveBase.has(path.basename(h)))) continue;
+    if (headers.length !== 1) continue;
+    const stmt = generateIncludeStatement(headers[0], testFile, search?.includeDirs);
+    if (!out.includes(stmt)) out.push(stmt);
+    haveBase.add(path.basename(headers[0]));
+  }
+  return out;
+}
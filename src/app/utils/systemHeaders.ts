@@ -0,0 +1,177 @@
+import { promises as fsp } from 'node:fs';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import { exec } from '../compiler/exec.js';
+
+export type UnresolvedPolicy = 'drop' | 'replace' | 'error';
+
+/* Standard library headers and the C++ standard that introduced them */
+export const STD_HEADERS: Record<string, number> = {
+  // C++98/03
+  algorithm: 98, bitset: 98, complex: 98, deque: 98, exception: 98, fstream: 98,
+  functional: 98, iomanip: 98, ios: 98, iosfwd: 98, iostream: 98, istream: 98,
+  iterator: 98, limits: 98, list: 98, locale: 98, map: 98, memory: 98, new: 98,
+  numeric: 98, ostream: 98, queue: 98, set: 98, sstream: 98, stack: 98,
+  stdexcept: 98, streambuf: 98, string: 98, typeinfo: 98, utility: 98,
+  valarray: 98, vector: 98,
+  cassert: 98, cctype: 98, cerrno: 98, cfloat: 98, ciso646: 98, climits: 98,
+  clocale: 98, cmath: 98, csetjmp: 98, csignal: 98, cstdarg: 98, cstddef: 98,
+  cstdio: 98, cstdlib: 98, cstring: 98, ctime: 98, cwchar: 98, cwctype: 98,
+  // C++11
+  array: 11, atomic: 11, chrono: 11, codecvt: 11, condition_variable: 11,
+  forward_list: 11, future: 11, initializer_list: 11, mutex: 11, random: 11,
+  ratio: 11, regex: 11, scoped_allocator: 11, system_error: 11, thread: 11,
+  tuple: 11, type_traits: 11, typeindex: 11, unordered_map: 11,
+  unordered_set: 11, cfenv: 11, cinttypes: 11, cstdint: 11, cuchar: 11,
+  // C++14
+  shared_mutex: 14,
+  // C++17
+  any: 17, charconv: 17, execution: 17, filesystem: 17, memory_resource: 17,
+  optional: 17, string_view: 17, variant: 17,
+  // C++20
+  barrier: 20, bit: 20, compare: 20, concepts: 20, coroutine: 20, format: 20,
+  latch: 20, numbers: 20, ranges: 20, semaphore: 20, source_location: 20,
+  span: 20, stop_token: 20, syncstream: 20, version: 20,
+  // C++23
+  expected: 23, flat_map: 23, flat_set: 23, generator: 23, mdspan: 23,
+  print: 23, spanstream: 23, stacktrace: 23, stdfloat: 23,
+};
+
+/* What is needed to check `#include <...>` lines */
+export interface SystemHeaderCheck {
+  systemDirs?: string[];     // compiler's <...> search path; unknown → only the std table is checked
+  cppStandard: number;       // 98, 11, 14, 17, 20, 23
+  unresolved: UnresolvedPolicy;
+}
+
+export interface SystemHeaderVerdict {
+  ok: boolean;
+  reason?: string;           // why it is not usable
+  replacement?: string;      // nearest real header, e.g. "vector"
+}
+
+const searchPathCache = new Map<string, string[] | undefined>();
+
+/* C++98 sorts before C++11 */
+function available(since: number, standard: number): boolean {
+  const order = (n: number) => (n === 98 ? 3 : n);
+  return order(since) <= order(standard);
+}
+
+/**
+ * C++ standard selected by `-std=` in the given flags (GCC's default, 17,
+ * otherwise).
+ */
+export function cppStandardOf(flags: string[]): number {
+  const std = [...flags].reverse().find(f => f.startsWith('-std='));
+  const m = std?.match(/\+\+(\w+)$/);
+  if (!m) return 17;
+  const aliases: Record<string, number> = { '0x': 11, '1y': 14, '1z': 17, '2a': 20, '2b': 23, '2c': 26 };
+  const n = aliases[m[1]] ?? Number(m[1]);
+  if (!Number.isFinite(n)) return 17;
+  return n === 3 ? 98 : n;
+}
+
+/**
+ * Ask the compiler for its `#include <...>` search path
+ * (`<compiler> -E -x c++ -v /dev/null`).
+ * @returns Directories in search order, or undefined if the compiler cannot be run
+ */
+export async function querySystemIncludeDirs(compiler: string, flags: string[] = []): Promise<string[] | undefined> {
+  const std = flags.filter(f => f.startsWith('-std=') || f.startsWith('-stdlib='));
+  const key = [compiler, ...std].join(' ');
+  if (searchPathCache.has(key)) return searchPathCache.get(key);
+
+  let dirs: string[] | undefined;
+  try {
+    const res = await exec(compiler, [...std, '-E', '-x', 'c++', '-v', '/dev/null'], process.cwd(), AbortSignal.timeout(10_000));
+    const text = res.stderr;
+    const start = text.indexOf('#include <...> search starts here:');
+    const end = text.indexOf('End of search list.', start);
+    if (res.code === 0 && start >= 0 && end > start) {
+      dirs = text.slice(start, end).split('\n').slice(1)
+        .map(l => l.trim().replace(/ \(framework directory\)$/, ''))
+        .filter(Boolean)
+        .map(d => path.resolve(d));
+    }
+  } catch {
+    dirs = undefined;
+  }
+  searchPathCache.set(key, dirs);
+  return dirs;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cur = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = cur;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Pick the closest name: one containing the other wins, then the
+ * smallest edit distance up to a third of the name's length.
+ */
+function closest(wanted: string, names: string[]): string | undefined {
+  const stem = (n: string) => n.replace(/\.(h|hh|hpp|hxx|h\+\+)$/, '');
+  const w = stem(wanted);
+  let best: string | undefined;
+  let bestScore = Infinity;
+  for (const name of names) {
+    const n = stem(name);
+    const score = n.includes(w) || w.includes(n)
+      ? Math.abs(n.length - w.length) / 100
+      : editDistance(w, n);
+    if (score < bestScore) { best = name; bestScore = score; }
+  }
+  return bestScore <= Math.max(1, Math.floor(w.length / 3)) ? best : undefined;
+}
+
+async function nearestHeader(header: string, dirs: string[], check: SystemHeaderCheck): Promise<string | undefined> {
+  const dir = path.posix.dirname(header);
+  if (dir === '.') {
+    const usable = Object.keys(STD_HEADERS).filter(h => available(STD_HEADERS[h], check.cppStandard));
+    return closest(header, usable);
+  }
+  for (const root of dirs) {
+    const full = path.join(root, dir);
+    if (!existsSync(full)) continue;
+    const entries = (await fsp.readdir(full)).filter(f => /\.(h|hh|hpp|hxx)$/.test(f));
+    const hit = closest(path.posix.basename(header), entries);
+    if (hit) return `${dir}/${hit}`;
+  }
+  return undefined;
+}
+
+/**
+ * Check an angle-bracket include against the standard library table and
+ * the real search path (system directories, then project directories).
+ */
+export async function checkSystemInclude(
+  header: string,
+  check: SystemHeaderCheck,
+  projectDirs: string[] = []
+): Promise<SystemHeaderVerdict> {
+  const since = STD_HEADERS[header];
+  if (since !== undefined) {
+    if (available(since, check.cppStandard)) return { ok: true };
+    return { ok: false, reason: `<${header}> requires C++${since}, project uses C++${check.cppStandard}` };
+  }
+
+  if (!check.systemDirs) return { ok: true };
+  const dirs = [...check.systemDirs, ...projectDirs];
+  if (dirs.some(d => existsSync(path.join(d, header)))) return { ok: true };
+
+  return {
+    ok: false,
+    reason: `<${header}> not found on the include search path`,
+    replacement: await nearestHeader(header, dirs, check)
+  };
+}
@@ -0,0 +1,362 @@
+export interface TestBlock {
+  macro: string;      // TEST, TEST_F, TEST_P, TYPED_TEST ..., TEST_CASE
+  suite: string;      // empty for Catch2 / doctest test cases
+  name: string;
+  start: number;      // offset of the macro name
+  end: number;        // offset just past the closing brace
+  startLine: number;  // 1-based
+  endLine: number;    // 1-based, inclusive
+  text: string;
+}
+
+const BLOCK_HEAD_RX = /\b(TEST|TEST_F|TEST_P|TYPED_TEST|TYPED_TEST_P)\s*\(\s*([A-Za-z_]\w*)\s*,\s*([A-Za-z_]\w*)\s*\)\s*\{/g;
+// Catch2 / doctest: the name is a string literal, blank in masked code (fixture first for *_METHOD / *_FIXTURE)
+const CASE_HEAD_RX = /\b(TEST_CASE|TEST_CASE_METHOD|TEST_CASE_FIXTURE|TEMPLATE_TEST_CASE|TEST_CASE_TEMPLATE|SCENARIO)\s*\(\s*(?:[A-Za-z_][\w:]*\s*,\s*)?"[^"\n]*"[^{};]*\)\s*\{/g;
+
+/**
+ * Blank out comments, string and character literals (keeping offsets and
+ * newlines) so that structural regexes only see real code.
+ */
+export function maskCode(src: string): string {
+  const out = src.split('');
+  const blank = (from: number, to: number) => {
+    for (let k = from; k < to; k++) if (out[k] !== '\n') out[k] = ' ';
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    const n = src[i + 1];
+    if (c === '/' && n === '/') {
+      const e = src.indexOf('\n', i);
+      const stop = e < 0 ? src.length : e;
+      blank(i, stop);
+      i = stop;
+    } else if (c === '/' && n === '*') {
+      const e = src.indexOf('*/', i + 2);
+      const stop = e < 0 ? src.length : e + 2;
+      blank(i, stop);
+      i = stop;
+    } else if (c === 'R' && n === '"' && !/\w/.test(src[i - 1] ?? '')) {
+      // raw string literal R"delim( ... )delim"
+      const open = src.indexOf('(', i + 2);
+      const delim = src.slice(i + 2, open);
+      const e = src.indexOf(`)${delim}"`, open);
+      const stop = e < 0 ? src.length : e + delim.length + 2;
+      blank(i + 1, stop);
+      i = stop;
+    } else if (c === '"' || c === '\'') {
+      let j = i + 1;
+      while (j < src.length && src[j] !== c && src[j] !== '\n') j += src[j] === '\\' ? 2 : 1;
+      blank(i + 1, j);
+      i = j + 1;
+    } else {
+      i++;
+    }
+  }
+  return out.join('');
+}
+
+function lineAt(src: string, offset: number): number {
+  let line = 1;
+  for (let k = 0; k < offset && k < src.length; k++) if (src[k] === '\n') line++;
+  return line;
+}
+
+/**
+ * Locate every test block in a file (Google Test, and Catch2 / doctest
+ * TEST_CASEs), with brace-matched extents.
+ */
+export function scanTestBlocks(src: string): TestBlock[] {
+  const masked = maskCode(src);
+  const heads = [
+    ...[...masked.matchAll(BLOCK_HEAD_RX)].map(m => ({ m, suite: m[2], name: m[3] })),
+    ...[...masked.matchAll(CASE_HEAD_RX)].map(m => {
+      const open = m.index! + m[0].indexOf('"');
+      const name = src.slice(open + 1, masked.indexOf('"', open + 1));
+      return { m, suite: '', name: m[1] === 'SCENARIO' ? `Scenario: ${name}` : name };
+    }),
+  ].sort((a, b) => a.m.index! - b.m.index!);
+  const blocks: TestBlock[] = [];
+
+  for (const { m, suite, name } of heads) {
+    const start = m.index!;
+    let depth = 0;
+    let end = -1;
+    for (let k = start + m[0].length - 1; k < masked.length; k++) {
+      if (masked[k] === '{') depth++;
+      else if (masked[k] === '}' && --depth === 0) { end = k + 1; break; }
+    }
+    if (end < 0) end = src.length;   // unterminated block: runs to EOF
+
+    blocks.push({
+      macro: m[1], suite, name,
+      start, end,
+      startLine: lineAt(src, start),
+      endLine: lineAt(src, end - 1),
+      text: src.slice(start, end),
+    });
+  }
+  return blocks;
+}
+
+/* `Suite.Name`; Catch2 and doctest test case names are unique on their own */
+export function blockId(b: Pick<TestBlock, 'suite' | 'name'>): string {
+  return b.suite ? `${b.suite}.${b.name}` : b.name;
+}
+
+/**
+ * Replace the given blocks (matched by suite + name) with new text,
+ * leaving every other byte of `src` untouched.
+ */
+export function spliceBlocks(src: string, replacements: Map<string, string>): string {
+  const blocks = scanTestBlocks(src)
+    .filter(b => replacements.has(blockId(b)))
+    .sort((a, b) => b.start - a.start);
+  let out = src;
+  for (const b of blocks) {
+    out = out.slice(0, b.start) + replacements.get(blockId(b))!.trim() + out.slice(b.end);
+  }
+  return out;
+}
+
+/**
+ * Block id of a test as Google Test reports it: instances of parameterized
+ * and typed tests (`Inst/Suite.Name/2`, `Suite/1.Name`) map back to the
+ * `Suite.Name` of the block that defines them. Catch2 sections
+ * (`Name/Section`, no suite) map back to their test case.
+ */
+export function reportedBlockId(suite: string, name: string): string {
+  if (!suite) return name.split('/')[0];
+  const base = suite.split('/').filter(s => !/^\d+$/.test(s)).pop() ?? suite;
+  return `${base}.${name.split('/')[0]}`;
+}
+
+/**
+ * `--gtest_filter` pattern selecting every instance of a block; a
+ * TEST_CASE is selected by its name.
+ */
+export function gtestFilterFor(b: Pick<TestBlock, 'macro' | 'suite' | 'name'>): string {
+  switch (b.macro) {
+    case 'TEST_P':       return `*/${b.suite}.${b.name}/*`;
+    case 'TYPED_TEST':   return `${b.suite}/*.${b.name}`;
+    case 'TYPED_TEST_P': return `*/${b.suite}/*.${b.name}`;
+    default:             return blockId(b);
+  }
+}
+
+/* Index just past the bracket matching the one at `open`, on masked code */
+function closeOf(masked: string, open: number): number {
+  const pair = masked[open] === '(' ? ')' : '}';
+  let depth = 0;
+  for (let k = open; k < masked.length; k++) {
+    if (masked[k] === masked[open]) depth++;
+    else if (masked[k] === pair && --depth === 0) return k + 1;
+  }
+  return masked.length;
+}
+
+export interface ClassDef {
+  name: string;
+  isStruct: boolean;
+  start: number;      // offset of `template` or `class` / `struct`
+  end: number;        // offset just past the terminating `;`
+  bodyStart: number;  // offset just past the opening brace
+  bodyEnd: number;    // offset of the closing brace
+  text: string;
+}
+
+const CLASS_HEAD_RX = /\b(class|struct)\s+([A-Za-z_]\w*)\s*(?:final\s*)?(?::[^{;()]*)?\{/g;
+
+/**
+ * Locate class and struct definitions (test fixtures, mostly), including
+ * a leading `template <...>`.
+ */
+export function findClassDefinitions(src: string): ClassDef[] {
+  const masked = maskCode(src);
+  const defs: ClassDef[] = [];
+
+  for (const m of masked.matchAll(CLASS_HEAD_RX)) {
+    const before = masked.slice(0, m.index);
+    if (/\benum\s*$/.test(before)) continue;
+    const template = before.match(/\btemplate\s*<[^;{}]*>\s*$/);
+    const open = m.index! + m[0].length - 1;
+    const close = closeOf(masked, open);
+    const semi = masked.slice(close).match(/^\s*;/);
+    const start = template ? template.index! : m.index!;
+    const end = semi ? close + semi[0].length : close;
+    defs.push({
+      name: m[2], isStruct: m[1] === 'struct',
+      start, end,
+      bodyStart: open + 1,
+      bodyEnd: close - 1,
+      text: src.slice(start, end),
+    });
+  }
+  return defs;
+}
+
+export interface ClassMember {
+  key: string;     // member name, plus the parameter list for functions
+  access: string;  // public / protected / private
+  text: string;
+}
+
+function memberKey(masked: string): string {
+  const flat = masked.replace(/^\s*template\s*<[^;{}]*>/, '').replace(/\s+/g, ' ').trim();
+  const alias = flat.match(/^using\s+(\w+)\s*=/);
+  if (alias) return alias[1];
+  const paren = flat.indexOf('(');
+  const stop = flat.search(/[={]/);
+  if (paren >= 0 && (stop < 0 || paren < stop)) {
+    const name = flat.slice(0, paren).match(/(operator\s*\S+|~?\w+)\s*$/)?.[1] ?? '';
+    const params = flat.slice(paren, closeOf(flat, paren)).replace(/\s+/g, '');
+    return `${name}${params}`;
+  }
+  const decl = flat.slice(0, stop < 0 ? undefined : stop).replace(/[\[;].*$/, '');
+  return decl.match(/(\w+)\s*$/)?.[1] ?? flat;
+}
+
+/**
+ * Split a class body into members (fields, methods, aliases) with the
+ * access level each is declared under.
+ */
+export function classMembers(src: string, def: ClassDef): ClassMember[] {
+  const masked = maskCode(src);
+  const members: ClassMember[] = [];
+  let access = def.isStruct ? 'public' : 'private';
+  let from = def.bodyStart;
+  let depth = 0;
+  const push = (to: number) => {
+    if (masked.slice(from, to).trim()) {
+      members.push({ key: memberKey(masked.slice(from, to)), access, text: src.slice(from, to).trim() });
+    }
+    from = to;
+  };
+
+  for (let k = def.bodyStart; k < def.bodyEnd; k++) {
+    const c = masked[k];
+    if (c === '{' || c === '(') depth++;
+    else if (c === ')') depth--;
+    else if (c === '}') {
+      // A function body ends the member, a brace initialiser does not
+      if (--depth === 0 && !/^\s*[;,]/.test(masked.slice(k + 1))) push(k + 1);
+    } else if (c === ';' && depth === 0) {
+      push(k + 1);
+    } else if (c === ':' && depth === 0 && masked[k + 1] !== ':' && masked[k - 1] !== ':') {
+      const label = masked.slice(from, k).trim();
+      if (/^(public|protected|private)$/.test(label)) {
+        access = label;
+        from = k + 1;
+      }
+    }
+  }
+  return members;
+}
+
+export interface Instantiation {
+  macro: string;     // INSTANTIATE_TEST_SUITE_P, TYPED_TEST_SUITE ...
+  prefix?: string;   // instantiation name, for INSTANTIATE_*
+  suite: string;
+  start: number;
+  end: number;       // just past the closing parenthesis and `;`
+  text: string;
+}
+
+const INSTANTIATION_RX = /\b(INSTANTIATE_(?:TYPED_)?TEST_(?:SUITE|CASE)_P|TYPED_TEST_(?:SUITE|CASE))\s*\(\s*([A-Za-z_]\w*)\s*(?:,\s*([A-Za-z_]\w*))?/g;
+
+/**
+ * Find the statements that instantiate parameterized and typed suites.
+ */
+export function scanInstantiations(src: string): Instantiation[] {
+  const masked = maskCode(src);
+  return [...masked.matchAll(INSTANTIATION_RX)].map(m => {
+    const close = closeOf(masked, masked.indexOf('(', m.index!));
+    const semi = masked.slice(close).match(/^\s*;/);
+    const end = semi ? close + semi[0].length : close;
+    const instantiate = m[1].startsWith('INSTANTIATE_');
+    return {
+      macro: m[1],
+      prefix: instantiate ? m[2] : undefined,
+      suite: (instantiate ? m[3] : m[2]) ?? m[2],
+      start: m.index!, end,
+      text: src.slice(m.index!, end),
+    };
+  });
+}
+
+/**
+ * Two instantiations with the same id cannot both be in a file:
+ * `Prefix/Suite` for INSTANTIATE_*, the suite for TYPED_TEST_SUITE.
+ */
+export function instantiationId(i: Instantiation): string {
+  return i.prefix ? `${i.prefix}/${i.suite}` : i.suite;
+}
+
+export interface Namespace {
+  name: string;       // `a::b` for a nested definition, empty for an anonymous one
+  start: number;      // offset of `namespace`
+  end: number;        // offset just past the closing brace
+}
+
+const NAMESPACE_RX = /\b(?:inline\s+)?namespace\s+(?:([A-Za-z_][\w:]*)\s*)?\{/g;
+const MAIN_RX = /^[ \t]*(?:int|auto)\s+main\s*\(/m;
+
+/**
+ * Locate namespace definitions, outer ones first.
+ */
+export function scanNamespaces(src: string): Namespace[] {
+  const masked = maskCode(src);
+  return [...masked.matchAll(NAMESPACE_RX)].map(m => ({
+    name: m[1] ?? '',
+    start: m.index!,
+    end: closeOf(masked, m.index! + m[0].length - 1),
+  }));
+}
+
+/**
+ * Offset of the line defining `main()`, or of the comment right above
+ * it, if the file has its own.
+ */
+export function findMain(src: string): number | undefined {
+  let start = maskCode(src).match(MAIN_RX)?.index;
+  if (start === undefined) return undefined;
+  const above = src.slice(0, start).split('\n');
+  above.pop();
+  while (above.length && /^\s*(?:\/\/|\/\*|\*)/.test(above[above.length - 1])) {
+    start -= above.pop()!.length + 1;
+  }
+  return start;
+}
+
+export interface InsertionPoint {
+  offset: number;
+  after?: TestBlock;      // the test block a new one follows
+  beforeMain: boolean;    // no test before main(): the new one goes right above it
+  namespaces: string[];   // enclosing namespaces, outermost first ('' = anonymous)
+}
+
+/**
+ * Where a new test goes: after the last test block (and the
+ * instantiations following it) that comes before `main()`, so it shares
+ * the namespaces of the existing tests; above `main()` or at the end of
+ * the file when there is no test yet.
+ */
+export function findInsertionPoint(src: string): InsertionPoint {
+  const main = findMain(src);
+  const inFront = <T extends { end: number }>(items: T[]) => main === undefined ? items : items.filter(i => i.end <= main);
+  const blocks = inFront(scanTestBlocks(src));
+  const after = blocks[blocks.length - 1];
+
+  let offset: number;
+  if (after) {
+    const trailing = inFront(scanInstantiations(src)).filter(i => i.start >= after.end);
+    offset = Math.max(after.end, ...trailing.map(i => i.end));
+  } else {
+    offset = main ?? src.length;
+  }
+  const namespaces = scanNamespaces(src)
+    .filter(n => n.start < offset && offset < n.end)
+    .map(n => n.name);
+  return { offset, after, beforeMain: !after && main !== undefined, namespaces };
+}
@@ -1,17 +1,30 @@
 import { fetch as llmFetch, fetchRawText } from '../llm/client.js';
 import { fsx } from './fsx.js';
-import { compileAndRun } from '../compiler/build.js';
+import { compileAndRun, BuildSettings, CompilationResult } from '../compiler/build.js';
+import { renderDiagnostics } from '../compiler/diagnostics.js';
 import { NewTestYaml } from '../prompt/schema.js';
-import { appendTest } from './appendTest.js';
+import {
+  ValidationCfg,
+  FixCandidate,
+  applyAndValidateTests,
+  judgeCandidate
+} from './applyAndValidateTests.js';
+import { renderTestFailures } from '../compiler/gtestResults.js';
+import { scanTestBlocks, spliceBlocks, blockId, reportedBlockId, gtestFilterFor, TestBlock } from './testBlocks.js';
+import { unifiedDiff } from './diff.js';
+import { resolveFramework } from '../compiler/framework.js';
+import { Transaction } from './transaction.js';
 import { promises as fsp } from 'node:fs';
 import path from 'node:path';
 import chalk from 'chalk';
 import dedent from 'dedent';
+import { log } from './logger.js';
 
 export interface TestFixResult {
   success: boolean;
   attempts: number;
   finalContent?: string;
+  compiled?: CompilationResult;   // the build and run of finalContent
   error?: string;
 }
 
@@ -22,176 +35,265 @@ export interface TestFixConfig {
   maxAttempts?: number;
   signal: AbortSignal;
   gpp?: boolean;
+  build?: BuildSettings;
+  targets?: string[];   // Suite.Name ids to fix; other failing tests are left alone
+  tx?: Transaction;     // tracks the fix candidate and the builds' writes
+  initial?: CompilationResult; // testFile was built and run already, with this result
 }
 
 /**
- * Attempts to fix a test file that fails compilation/testing using LLM prompts
+ * Attempts to fix a test file that fails compilation/testing using LLM prompts.
+ * Only the TEST blocks the errors point at are sent to the LLM and replaced;
+ * every other byte of the file is guaranteed to stay identical.
  * @param config Configuration for test fixing
  * @returns Result of the fixing attempt
  */
-export async function fixTestFile(config: TestFixConfig & { gpp?: boolean }): Promise<TestFixResult> {
-  const { testFile, srcFile, root, maxAttempts = 3, signal, gpp } = config;
+export async function fixTestFile(config: TestFixConfig): Promise<TestFixResult> {
+  const { testFile, srcFile, root, maxAttempts = 3, signal, gpp, build, targets, tx, initial } = config;
   
-  console.log(chalk.blue(`🔧 Starting test file fixing process...`));
-  console.log(chalk.gray(`📝 Test file: ${testFile}`));
-  console.log(chalk.gray(`📝 Source file: ${srcFile}`));
-  console.log(chalk.gray(`🔄 Max attempts: ${maxAttempts}`));
+  log.info(chalk.blue(`🔧 Starting test file fixing process...`));
+  log.debug(chalk.gray(`📝 Test file: ${testFile}`));
+  log.debug(chalk.gray(`📝 Source file: ${srcFile}`));
+  log.debug(chalk.gray(`🔄 Max attempts: ${maxAttempts}`));
 
+  const ext = path.extname(testFile);
+  const candidateFile = `${testFile.slice(0, -ext.length)}.fix${ext}`;
+  tx?.scratch(candidateFile);
   let currentContent = await fsx.read(testFile);
+  // Every instance of a parameterized / typed target
+  const filter = targets && scanTestBlocks(currentContent)
+    .filter(b => targets.includes(blockId(b)))
+    .map(gtestFilterFor)
+    .join(':');
+  const compile = (file: string) => compileAndRun({
+    ...build, root, testFile: file, srcFile, mode: gpp ? 'g++' : 'cmake', gtestFilter: filter || targets?.join(':'), tx
+  }, signal);
+  // With targets, only their verdicts matter (tests failing already are not our business)
+  const isFixed = (r: CompilationResult) => targets && r.tests
+    ? targets.every(id => judgeCandidate(id, r).pass)
+    : r.success;
+
+  if (!initial) log.debug(chalk.gray('  🔨 Testing current test file...'));
+  let compilationResult = initial ?? await compile(testFile);
   let attempts = 0;
 
-  while (attempts < maxAttempts) {
-    attempts++;
-    console.log(chalk.blue(`\n🔄 Attempt ${attempts}/${maxAttempts}`));
+  try {
+    while (true) {
+      if (isFixed(compilationResult)) {
+        log.info(chalk.green(`  ✅ Test file compiles and runs successfully!`));
+        return {
+          success: true,
+          attempts,
+          finalContent: currentContent,
+          compiled: compilationResult
+        };
+      }
 
-    // Test current content with error capture
-    console.log(chalk.gray('  🔨 Testing current test file...'));
-    let compilationResult;
-    if (gpp) {
-      compilationResult = await compileAndRun({ root, testFile, srcFile, mode: 'g++' }, signal);
-    } else {
-      compilationResult = await compileAndRun({ root, testTarget: 'ut_bin' }, signal);
-    }
-    
-    if (compilationResult.success) {
-      console.log(chalk.green(`  ✅ Test file compiles and runs successfully!`));
-      return {
-        success: true,
-        attempts,
-        finalContent: currentContent
-      };
-    }
+      log.info(chalk.red(`  ❌ Test file failed compilation/testing`));
 
-    console.log(chalk.red(`  ❌ Test file failed compilation/testing`));
-    if (compilationResult.errors) {
-      console.log(chalk.gray(`  📋 Error details captured for LLM analysis`));
-    }
+      if (attempts >= maxAttempts) {
+        log.info(chalk.red(`  🚫 Max attempts reached - giving up`));
+        return {
+          success: false,
+          attempts,
+          error: 'Max attempts reached'
+        };
+      }
+      attempts++;
+      log.info(chalk.blue(`\n🔄 Attempt ${attempts}/${maxAttempts}`));
 
-    // If this is the last attempt, don't try to fix
-    if (attempts >= maxAttempts) {
-      console.log(chalk.red(`  🚫 Max attempts reached - giving up`));
-      return {
-        success: false,
-        attempts,
-        error: 'Max attempts reached'
-      };
-    }
+      const scope = locateFailingBlocks(currentContent, compilationResult)
+        .filter(b => !targets || targets.includes(blockId(b)));
+      if (!scope.length) {
+        log.warn(chalk.red('  ❌ Errors could not be attributed to any TEST block'));
+        return {
+          success: false,
+          attempts,
+          error: 'Errors could not be attributed to any TEST block'
+        };
+      }
+      log.debug(chalk.gray(`  🎯 Failing block(s): ${scope.map(blockId).join(', ')}`));
 
-    // Try to fix the test file using LLM
-    console.log(chalk.blue(`  🤖 Attempting to fix test file using LLM...`));
-    
-    try {
-      const fixedContent = await attemptTestFix({
+      log.info(chalk.blue(`  🤖 Attempting to fix failing test block(s) using LLM...`));
+      const reply = await attemptTestFix({
         testContent: currentContent,
+        scope,
         srcFile,
         testFile,
         root,
         signal,
-        compilationErrors: compilationResult.errors
+        framework: resolveFramework(build?.framework, currentContent).label,
+        compilationErrors: compilationResult.diagnostics?.length
+          ? renderDiagnostics(compilationResult.diagnostics)
+          : compilationResult.tests
+            ? renderTestFailures(compilationResult.tests)
+            : compilationResult.errors
       });
+      if (!reply) continue;
 
-      if (fixedContent && fixedContent !== currentContent) {
-        console.log(chalk.green(`  ✅ LLM generated fixed content`));
-        currentContent = fixedContent;
-        
-        // Write the fixed content to a temporary file for testing
-        const tempTestFile = testFile + '.temp';
-        await fsx.write(tempTestFile, fixedContent);
-        
-        // Test the fixed content
-        console.log(chalk.gray('  🔨 Testing fixed test file...'));
-        let fixedTestResult;
-        if (gpp) {
-          fixedTestResult = await compileAndRun({ root, testFile: tempTestFile, srcFile, mode: 'g++' }, signal);
-        } else {
-          fixedTestResult = await compileAndRun({ root, testTarget: 'ut_bin' }, signal);
-        }
-        
-        if (fixedTestResult.success) {
-          console.log(chalk.green(`  ✅ Fixed test file compiles and runs successfully!`));
-          // Clean up temp file
-          await fsp.rm(tempTestFile, { force: true });
-          return {
-            success: true,
-            attempts,
-            finalContent: fixedContent
-          };
-        } else {
-          console.log(chalk.yellow(`  ⚠️  Fixed test file still fails, will try again`));
-          // Update current content for next iteration
-          currentContent = fixedContent;
-        }
-        
-        // Clean up temp file
-        await fsp.rm(tempTestFile, { force: true });
-      } else {
-        console.log(chalk.yellow(`  ⚠️  LLM did not generate different content`));
+      const fix = applyScopedFix(currentContent, reply, scope, testFile);
+      if (fix.rejected) {
+        log.warn(chalk.red(`  ❌ Fix rejected: ${fix.rejected}`));
+        continue;
       }
-    } catch (error) {
-      console.log(chalk.red(`  ❌ Error during LLM fix attempt: ${error instanceof Error ? error.message : 'Unknown error'}`));
+      if (fix.content === currentContent) {
+        log.warn(chalk.yellow(`  ⚠️  LLM did not generate different content`));
+        continue;
+      }
+
+      log.info(chalk.green(`  ✅ LLM generated fixed block(s)`));
+      currentContent = fix.content!;
+      await fsx.write(candidateFile, currentContent);
+      log.debug(chalk.gray('  🔨 Testing fixed test file...'));
+      compilationResult = await compile(candidateFile);
+    }
+  } finally {
+    await fsp.rm(candidateFile, { force: true });
+  }
+}
+
+/**
+ * Map a failed build or run back to the TEST blocks it concerns.
+ *  • compiler/linker diagnostics already attributed to a block
+ *  • failed tests in the binary's Google Test report
+ *  • `[  FAILED  ] Suite.Name` lines when no report was written (crash)
+ */
+function locateFailingBlocks(content: string, result: CompilationResult): TestBlock[] {
+  const ids = new Set((result.diagnostics ?? []).map(d => d.testBlock).filter(Boolean));
+  if (result.tests) {
+    result.tests.filter(t => t.status === 'failed').forEach(t => ids.add(reportedBlockId(t.suite, t.name)));
+  } else {
+    for (const m of (result.errors ?? '').matchAll(/\[\s+FAILED\s+\]\s+([\w/]+)\.([\w/]+)/g)) {
+      ids.add(reportedBlockId(m[1], m[2]));
     }
   }
+  return scanTestBlocks(content).filter(b => ids.has(blockId(b)));
+}
+
+/**
+ * Splice the LLM's corrected blocks into the file.
+ * The reply may only contain the requested blocks and `#include` lines;
+ * anything touching another test, or any change outside the requested
+ * blocks, rejects the whole fix.
+ */
+function applyScopedFix(
+  content: string,
+  reply: string,
+  scope: TestBlock[],
+  testFile: string
+): { content?: string; rejected?: string } {
+  const scopeIds = new Set(scope.map(blockId));
+  const original = new Map(scanTestBlocks(content).map(b => [blockId(b), b]));
+  const replacements = new Map<string, string>();
 
-  return {
-    success: false,
-    attempts,
-    error: 'All fix attempts failed'
+  for (const b of scanTestBlocks(reply)) {
+    const id = blockId(b);
+    if (scopeIds.has(id)) {
+      replacements.set(id, b.text);
+    } else if (original.has(id)) {
+      if (original.get(id)!.text !== b.text) {
+        return { rejected: `out-of-scope modification of ${id}\n${unifiedDiff(original.get(id)!.text + '\n', b.text + '\n', id, id)}` };
+      }
+    } else {
+      return { rejected: `unexpected new test ${id}` };
+    }
+  }
+  if (!replacements.size) {
+    return { rejected: 'reply contained none of the requested TEST blocks' };
+  }
+
+  let updated = spliceBlocks(content, replacements);
+
+  // Additional includes requested by the fix go after the last existing one
+  const incRx = /^\s*#\s*include\s+[<"].+[>"]/;
+  const lines = updated.split('\n');
+  const present = new Set(lines.filter(l => incRx.test(l)).map(l => l.trim()));
+  const added = [...new Set(reply.split('\n').filter(l => incRx.test(l)).map(l => l.trim()))]
+    .filter(l => !present.has(l));
+  if (added.length) {
+    const lastIncIdx = lines.reduce((idx, l, i) => (incRx.test(l) ? i : idx), -1);
+    lines.splice(lastIncIdx + 1, 0, ...added);
+    updated = lines.join('\n');
+  }
+
+  // Safety net: everything but the scoped blocks and include lines must be byte-identical
+  const outside = (text: string) => {
+    let masked = text;
+    for (const b of scanTestBlocks(text).filter(b => scopeIds.has(blockId(b))).sort((x, y) => y.start - x.start)) {
+      masked = masked.slice(0, b.start) + `<<${blockId(b)}>>` + masked.slice(b.end);
+    }
+    return masked.split('\n').filter(l => !incRx.test(l)).join('\n');
   };
+  const drift = unifiedDiff(outside(content), outside(updated), testFile, testFile);
+  if (drift) {
+    return { rejected: `out-of-scope modification\n${drift}` };
+  }
+
+  return { content: updated };
 }
 
 /**
- * Attempts to fix a test file using LLM by providing the current content and error context
+ * Asks the LLM to fix the failing TEST blocks, giving it the file preamble,
+ * the source under test and the errors as context
  */
 async function attemptTestFix({
   testContent,
+  scope,
   srcFile,
   testFile,
   root,
   signal,
+  framework,
   compilationErrors
 }: {
   testContent: string;
+  scope: TestBlock[];
   srcFile: string;
   testFile: string;
   root: string;
   signal: AbortSignal;
+  framework: string;     // e.g. "Google Test", "Catch2"
   compilationErrors?: string;
 }): Promise<string | null> {
   const srcContent = await fsx.read(srcFile);
   const srcRelativePath = path.relative(root, srcFile);
   const testRelativePath = path.relative(root, testFile);
+  const firstBlock = scanTestBlocks(testContent)[0];
+  const preamble = firstBlock ? testContent.slice(0, firstBlock.start).trimEnd() : testContent;
 
   const prompt = dedent`
-    C++ Test File Fix Request
+    C++ Test Fix Request
 
-    The following test file is failing to compile or run. Please fix the issues and provide a corrected version.
+    The following TEST block(s) fail to compile or run. Please fix them.
 
     === SOURCE FILE ===
     File: ${srcRelativePath}
     ${srcContent}
 
-    === CURRENT TEST FILE (WITH ERRORS) ===
+    === TEST FILE PREAMBLE (read-only context) ===
     File: ${testRelativePath}
-    ${testContent}
+    ${preamble}
+
+    === FAILING TEST BLOCKS ===
+    ${scope.map(b => b.text).join('\n\n')}
 
     ${compilationErrors ? `=== COMPILATION ERRORS ===
     ${compilationErrors}` : ''}
 
     === INSTRUCTIONS ===
-    1. Analyze the compilation errors and test file for issues
-    2. Fix include statements, missing dependencies, or incorrect test syntax
-    3. Ensure all Google Test macros are properly formatted
-    4. Verify that the test file correctly includes the source file being tested
-    5. Make sure all necessary standard library includes are present
-    6. Fix any namespace issues or scope problems
-    7. Ensure proper test structure and assertions
-    8. Pay attention to any specific error messages from the compiler
+    1. Analyze the compilation errors and the failing blocks for issues
+    2. Fix incorrect test syntax, wrong API usage and wrong expectations
+    3. Ensure all ${framework} macros are properly formatted
+    4. Keep the suite and test name of every block unchanged
+    5. If a standard library or project header is missing, add its #include line
+    6. Do not return, rename or modify any other test
+    7. Pay attention to any specific error messages from the compiler
 
     === OUTPUT FORMAT ===
-    Provide ONLY the corrected test file content without any markdown formatting or explanations.
-    The output should be a complete, compilable C++ test file.
+    Provide ONLY any needed #include lines followed by the corrected TEST blocks,
+    without any markdown formatting or explanations.
 
-    === CORRECTED TEST FILE ===
+    === CORRECTED TEST BLOCKS ===
   `;
 
   try {
@@ -201,10 +303,10 @@ async function attemptTestFix({
       return correctedContent;
     }
     
-    console.log(chalk.yellow(`  ⚠️  LLM returned empty or invalid content`));
+    log.warn(chalk.yellow(`  ⚠️  LLM returned empty or invalid content`));
     return null;
   } catch (error) {
-    console.log(chalk.red(`  ❌ LLM request failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    log.error(chalk.red(`  ❌ LLM request failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
     return null;
   }
 }
@@ -223,116 +325,40 @@ export async function applyAndValidateTestsWithFixing({
 }: {
   testFile: string,
   newTests: NewTestYaml[],
-  cfg: { testFile: string; srcFile: string; root: string; gpp?: boolean },
+  cfg: ValidationCfg,
   signal: AbortSignal,
   bypassValidation?: boolean,
   enableAutoFix?: boolean,
   maxFixAttempts?: number
 }) {
-  console.log(chalk.blue(`🔧 Processing ${newTests.length} test(s) with auto-fixing...`));
-  console.log(chalk.gray(`📝 Test file: ${testFile}`));
-  console.log(chalk.gray(`⚡ Bypass validation: ${bypassValidation}`));
-  console.log(chalk.gray(`🔧 Auto-fix enabled: ${enableAutoFix}`));
-  console.log(chalk.gray(`🔄 Max fix attempts: ${maxFixAttempts}`));
-  
-  let results: { name: string, verdict: string, fixed?: boolean }[] = [];
+  log.debug(chalk.gray(`🔧 Auto-fix enabled: ${enableAutoFix}`));
+  log.debug(chalk.gray(`🔄 Max fix attempts: ${maxFixAttempts}`));
 
-  for (let i = 0; i < newTests.length; i++) {
-    const newTest = newTests[i];
-    console.log(chalk.blue(`\n📝 Processing test ${i + 1}/${newTests.length}: ${newTest.name}`));
-    
-    if (bypassValidation) {
-      // Directly append to main test file without validation
-      console.log(chalk.gray('  ⚡ Bypassing validation - directly appending test'));
-      await appendTest(testFile, newTest, cfg.srcFile);
-      console.log(chalk.green(`  ✅ Test "${newTest.name}" appended successfully`));
-      results.push({ name: newTest.name, verdict: 'pass' });
+  const fix: FixCandidate = async (replicaPath, id, compiled) => {
+    log.info(chalk.blue(`  🔧 Attempting to auto-fix test file...`));
+    const fixResult = await fixTestFile({
+      testFile: replicaPath,
+      srcFile: cfg.srcFile,
+      root: cfg.root,
+      maxAttempts: maxFixAttempts,
+      signal,
+      gpp: cfg.gpp,
+      build: cfg.build,
+      targets: id ? [id] : undefined,
+      tx: cfg.tx,
+      initial: compiled
+    });
+    if (fixResult.success) {
+      log.info(chalk.green(`  ✅ Auto-fix successful after ${fixResult.attempts} attempts`));
     } else {
-      // Use replica approach for validation with auto-fixing
-      console.log(chalk.gray('  🔄 Using replica approach for validation'));
-
-      const ext = path.extname(testFile);                         // e.g., '.cpp'
-      const base = testFile.slice(0, -ext.length);                // 'foo_test'
-      const replicaPath = `${base}.replica${ext}`;               
-      console.log(chalk.gray(`  📂 Replica path: ${replicaPath}`));
-      
-      // Copy the current test file to the replica
-      if (fsx.exists(testFile)) {
-        console.log(chalk.gray('  📋 Copying existing test file to replica'));
-        await fsp.copyFile(testFile, replicaPath);
-      } else {
-        console.log(chalk.gray('  📋 Creating new replica file'));
-        await fsp.writeFile(replicaPath, '', 'utf8');
-      }
-
-      // Append the new test to the replica
-      console.log(chalk.gray('  📝 Appending test to replica'));
-      await appendTest(replicaPath, newTest, cfg.srcFile);
-
-      // Validate the replica by compiling and running
-      console.log(chalk.gray('  🔨 Validating replica by compiling and running'));
-      let compiled;
-      if (cfg.gpp) {
-        compiled = await compileAndRun({ root: cfg.root, testFile: replicaPath, srcFile: cfg.srcFile, mode: 'g++' }, signal);
-      } else {
-        compiled = await compileAndRun({ root: cfg.root, testTarget: 'ut_bin' }, signal);
-      }
-      
-      if (compiled.success) {
-        // Commit: write the replica back to the main test file
-        console.log(chalk.gray('  ✅ Validation passed - committing changes'));
-        const replicaContent = await fsx.read(replicaPath);
-        await fsx.write(testFile, replicaContent);
-        console.log(chalk.green(`  ✅ Test "${newTest.name}" validated and committed`));
-        results.push({ name: newTest.name, verdict: 'pass' });
-      } else {
-        console.log(chalk.red(`  ❌ Test "${newTest.name}" failed validation`));
-        
-        // Try auto-fixing if enabled
-        if (enableAutoFix) {
-          console.log(chalk.blue(`  🔧 Attempting to auto-fix test file...`));
-          
-          const fixResult = await fixTestFile({
-            testFile: replicaPath,
-            srcFile: cfg.srcFile,
-            root: cfg.root,
-            maxAttempts: maxFixAttempts,
-            signal,
-            gpp: cfg.gpp
-          });
-          
-          if (fixResult.success && fixResult.finalContent) {
-            console.log(chalk.green(`  ✅ Auto-fix successful after ${fixResult.attempts} attempts`));
-            
-            // Test the fixed content
-            const fixedCompiled = cfg.gpp
-              ? await compileAndRun({ root: cfg.root, testFile: replicaPath, srcFile: cfg.srcFile, mode: 'g++' }, signal)
-              : await compileAndRun({ root: cfg.root, testTarget: 'ut_bin' }, signal);
-            
-            if (fixedCompiled.success) {
-              // Commit the fixed content
-              await fsx.write(testFile, fixResult.finalContent);
-              console.log(chalk.green(`  ✅ Fixed test "${newTest.name}" committed`));
-              results.push({ name: newTest.name, verdict: 'pass', fixed: true });
-            } else {
-              console.log(chalk.red(`  ❌ Fixed test still fails compilation`));
-              results.push({ name: newTest.name, verdict: 'fail' });
-            }
-          } else {
-            console.log(chalk.red(`  ❌ Auto-fix failed after ${fixResult.attempts} attempts`));
-            results.push({ name: newTest.name, verdict: 'fail' });
-          }
-        } else {
-          results.push({ name: newTest.name, verdict: 'fail' });
-        }
-      }
-
-      // Clean up replica
-      console.log(chalk.gray('  🧹 Cleaning up replica file'));
-      await fsp.rm(replicaPath, { force: true });
+      log.info(chalk.red(`  ❌ Auto-fix failed after ${fixResult.attempts} attempts`));
     }
-  }
+    return {
+      attempts: fixResult.attempts,
+      content: fixResult.success ? fixResult.finalContent : undefined,
+      compiled: fixResult.compiled
+    };
+  };
 
-  console.log(chalk.blue('\n📊 Processing complete'));
-  return results;
-} 
\ No newline at end of file
+  return applyAndValidateTests({ testFile, newTests, cfg, signal, bypassValidation, fix: enableAutoFix ? fix : undefined });
+}
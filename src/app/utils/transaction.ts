@@ -0,0 +1,348 @@
+import { createHash } from 'node:crypto';
+import { promises as fsp } from 'node:fs';
+import { existsSync } from 'node:fs';
+import path from 'node:path';
+import chalk from 'chalk';
+import { log } from './logger.js';
+
+/* Project-local state: staging areas and the backups `undo` restores from */
+export const STATE_DIR = '.gen-unit-test';
+const MAX_BACKUPS = 10;
+
+export type JournalStatus = 'open' | 'committed';
+
+/* One file a run changed; `backup` names its saved copy, absent for a file the run created */
+export interface JournalEntry {
+  file: string;        // absolute path
+  backup?: string;
+  after?: string;      // sha256 of the content the run left, set on commit
+}
+
+/* Written next to the backups when a run first touches a file, completed on commit */
+export interface Journal {
+  command: string;
+  started: string;     // ISO timestamp
+  status: JournalStatus;
+  files: JournalEntry[];
+}
+
+export interface UndoOutcome {
+  file: string;
+  status: 'restored' | 'removed' | 'changed-since';
+}
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+const backupsDir = (root: string) => path.join(path.resolve(root), STATE_DIR, 'backups');
+
+/**
+ * All writes of one command to the project. Every file is backed up the
+ * first time it is touched, new content is staged in a temp directory
+ * and renamed into place, and scratch files (replicas, fix candidates)
+ * are tracked. Aborting the signal or failing rolls the tree back to
+ * where it was; a committed transaction leaves a timestamped backup
+ * that `undo` restores.
+ */
+export class Transaction {
+  private readonly originals = new Map<string, string | undefined>();
+  private readonly scratchFiles = new Set<string>();
+  private readonly journal: Journal;
+  private queue: Promise<unknown> = Promise.resolve();
+  private ending?: Promise<void>;  // the commit or rollback, once started
+  private seq = 0;
+  private parent?: Transaction;    // set on a nested scope, see nested()
+  private readonly writers = new Map<string, Transaction>();  // the scope that last changed each file
+
+  private constructor(readonly root: string, private readonly dir: string, private readonly staging: string, command: string) {
+    this.journal = { command, started: new Date().toISOString(), status: 'open', files: [] };
+  }
+
+  static async begin(root: string, command: string, signal?: AbortSignal): Promise<Transaction> {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const id = `${stamp}-${process.pid}`;
+    const dir = path.join(backupsDir(root), id);
+    const staging = path.join(path.resolve(root), STATE_DIR, `staging-${id}`);
+    const tx = new Transaction(path.resolve(root), dir, staging, command);
+    signal?.addEventListener('abort', () => {
+      tx.rollback().catch(err => log.error(chalk.red(`❌ Rollback failed: ${err.message}`)));
+    }, { once: true });
+    return tx;
+  }
+
+  /**
+   * Run `body` in a transaction: committed when it returns, rolled back
+   * when it throws.
+   */
+  static async run<T>(root: string, command: string, signal: AbortSignal, body: (tx: Transaction) => Promise<T>): Promise<T> {
+    const tx = await Transaction.begin(root, command, signal);
+    try {
+      const result = await body(tx);
+      signal.throwIfAborted();
+      await tx.commit();
+      return result;
+    } catch (err) {
+      await tx.rollback();
+      throw err;
+    }
+  }
+
+  /**
+   * A scope for one part of the command (one source of `run-all`). Its
+   * writes go through this transaction; rolling it back puts the files it
+   * touched back the way it found them, unless another scope changed them
+   * since, and leaves the rest of the transaction alone. Committing it
+   * does nothing, the outer transaction commits.
+   */
+  nested(): Transaction {
+    const scope = new Transaction(this.root, this.dir, this.staging, this.journal.command);
+    scope.parent = this;
+    return scope;
+  }
+
+  /* A scope notes the content it found before its first change to a file */
+  private async touch(abs: string): Promise<void> {
+    if (this.parent!.scratchFiles.has(abs)) return;
+    if (!this.originals.has(abs)) this.originals.set(abs, existsSync(abs) ? await fsp.readFile(abs, 'utf8') : undefined);
+    this.parent!.writers.set(abs, this);
+  }
+
+  /* Operations run one at a time, so a rollback never interleaves with a write */
+  private serial<T>(op: () => Promise<T>, final = false): Promise<T> {
+    if (this.ending && !final) return Promise.reject(new Error('Transaction already finished'));
+    const next = this.queue.then(op);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * A temporary file next to the tree (e.g. foo_test.replica.cpp): written
+   * freely, never backed up, removed when the transaction ends.
+   */
+  scratch(file: string): string {
+    if (this.parent) return this.parent.scratch(file);
+    this.scratchFiles.add(path.resolve(file));
+    return file;
+  }
+
+  /**
+   * Save a file's current content before something outside the
+   * transaction (e.g. `patch`) changes it.
+   */
+  backup(file: string): Promise<void> {
+    if (this.parent) return this.touch(path.resolve(file)).then(() => this.parent!.backup(file));
+    return this.serial(() => this.save(path.resolve(file)));
+  }
+
+  private async save(abs: string): Promise<void> {
+    if (this.scratchFiles.has(abs) || this.originals.has(abs)) return;
+    const existed = existsSync(abs);
+    const content = existed ? await fsp.readFile(abs, 'utf8') : undefined;
+    this.originals.set(abs, content);
+
+    const entry: JournalEntry = { file: abs };
+    await ensureStateDir(this.root);
+    await fsp.mkdir(path.join(this.dir, 'files'), { recursive: true });
+    if (existed) {
+      entry.backup = String(this.journal.files.length);
+      await fsp.writeFile(path.join(this.dir, 'files', entry.backup), content!, 'utf8');
+    }
+    this.journal.files.push(entry);
+    await this.writeJournal();
+  }
+
+  /**
+   * Replace a file's content atomically: staged in the temp directory,
+   * then renamed over the target.
+   */
+  write(file: string, text: string): Promise<void> {
+    if (this.parent) return this.touch(path.resolve(file)).then(() => this.parent!.write(file, text));
+    return this.serial(async () => {
+      const abs = path.resolve(file);
+      if (this.scratchFiles.has(abs)) return fsp.writeFile(abs, text, 'utf8');
+      await this.save(abs);
+      await atomicWrite(abs, text, this.staging, String(this.seq++));
+    });
+  }
+
+  /**
+   * Delete a file, keeping its content for rollback and `undo`.
+   */
+  remove(file: string): Promise<void> {
+    if (this.parent) return this.touch(path.resolve(file)).then(() => this.parent!.remove(file));
+    return this.serial(async () => {
+      const abs = path.resolve(file);
+      if (!this.scratchFiles.has(abs)) await this.save(abs);
+      await fsp.rm(abs, { force: true });
+    });
+  }
+
+  /**
+   * Keep the changes. Files that ended up as they were are dropped from
+   * the backup; the oldest backups beyond the last ten are pruned.
+   */
+  commit(): Promise<void> {
+    if (this.parent) return Promise.resolve();
+    if (this.ending) return Promise.reject(new Error('Transaction already finished'));
+    return this.ending = this.serial(async () => {
+      await this.cleanup();
+      const changed: JournalEntry[] = [];
+      for (const entry of this.journal.files) {
+        const now = existsSync(entry.file) ? await fsp.readFile(entry.file, 'utf8') : undefined;
+        if (now === this.originals.get(entry.file)) continue;
+        changed.push({ ...entry, after: now === undefined ? undefined : sha256(now) });
+      }
+      if (!changed.length) {
+        await fsp.rm(this.dir, { recursive: true, force: true });
+        return;
+      }
+      this.journal.files = changed;
+      this.journal.status = 'committed';
+      await this.writeJournal();
+      log.info(chalk.gray(`💾 Backup of ${changed.length} file(s) in ${path.relative(this.root, this.dir)} (\`undo\` restores it)`));
+      await pruneBackups(this.root);
+    }, true);
+  }
+
+  /**
+   * Put every touched file back the way it was and remove scratch files.
+   * Writes issued afterwards fail; once committed or rolled back, this
+   * waits for that to finish and changes nothing.
+   */
+  rollback(): Promise<void> {
+    if (this.parent) return this.ending ??= this.rollbackScope();
+    if (this.ending) return this.ending.catch(() => undefined);
+    return this.ending = this.serial(async () => {
+      let restored = 0;
+      for (const [file, content] of this.originals) {
+        const now = existsSync(file) ? await fsp.readFile(file, 'utf8') : undefined;
+        if (now === content) continue;
+        restored++;
+        if (content === undefined) await fsp.rm(file, { force: true });
+        else await atomicWrite(file, content, this.staging, `restore-${this.seq++}`);
+      }
+      await this.cleanup();
+      await fsp.rm(this.dir, { recursive: true, force: true });
+      if (restored) log.warn(chalk.yellow(`↩️  Rolled back changes to ${restored} file(s)`));
+    }, true);
+  }
+
+  private async rollbackScope(): Promise<void> {
+    const parent = this.parent!;
+    let restored = 0;
+    for (const [file, content] of this.originals) {
+      if (parent.writers.get(file) !== this) {
+        log.warn(chalk.yellow(`⚠️  ${path.relative(this.root, file)} was changed by another source since, not rolled back`));
+        continue;
+      }
+      const now = existsSync(file) ? await fsp.readFile(file, 'utf8') : undefined;
+      if (now === content) continue;
+      restored++;
+      if (content === undefined) await parent.remove(file);
+      else await parent.write(file, content);
+    }
+    if (restored) log.warn(chalk.yellow(`↩️  Rolled back changes to ${restored} file(s)`));
+  }
+
+  private async cleanup(): Promise<void> {
+    for (const file of this.scratchFiles) await fsp.rm(file, { force: true });
+    await fsp.rm(this.staging, { recursive: true, force: true });
+  }
+
+  private async writeJournal(): Promise<void> {
+    await fsp.mkdir(this.dir, { recursive: true });
+    await fsp.writeFile(path.join(this.dir, 'journal.json'), JSON.stringify(this.journal, null, 2), 'utf8');
+  }
+}
+
+/**
+ * Write through `tx` when there is one, directly otherwise.
+ */
+export function writeThrough(tx: Transaction | undefined, file: string, text: string): Promise<void> {
+  return tx ? tx.write(file, text) : fsp.writeFile(file, text, 'utf8');
+}
+
+/**
+ * Write through a temp file and rename it into place, so readers (and a
+ * crash) see the old or the new content, never half of it. The temp file
+ * sits next to the target when the staging directory is on another
+ * filesystem.
+ */
+async function atomicWrite(file: string, text: string, staging: string, name: string): Promise<void> {
+  await fsp.mkdir(staging, { recursive: true });
+  await fsp.mkdir(path.dirname(file), { recursive: true });
+  const staged = path.join(staging, name);
+  await fsp.writeFile(staged, text, 'utf8');
+  try {
+    await fsp.rename(staged, file);
+  } catch (err: unknown) {
+    if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+    const sibling = `${file}.${process.pid}.tmp`;
+    await fsp.copyFile(staged, sibling);
+    await fsp.rename(sibling, file);
+    await fsp.rm(staged, { force: true });
+  }
+}
+
+/* The state directory keeps itself out of version control */
+async function ensureStateDir(root: string): Promise<void> {
+  const ignore = path.join(root, STATE_DIR, '.gitignore');
+  if (existsSync(ignore)) return;
+  await fsp.mkdir(path.dirname(ignore), { recursive: true });
+  await fsp.writeFile(ignore, '*\n', 'utf8');
+}
+
+/* Backup directories sort by their timestamp names */
+async function backupDirs(root: string): Promise<string[]> {
+  const dir = backupsDir(root);
+  if (!existsSync(dir)) return [];
+  const names = (await fsp.readdir(dir)).filter(n => existsSync(path.join(dir, n, 'journal.json')));
+  return names.sort().map(n => path.join(dir, n));
+}
+
+async function pruneBackups(root: string): Promise<void> {
+  const dirs = await backupDirs(root);
+  for (const dir of dirs.slice(0, Math.max(0, dirs.length - MAX_BACKUPS))) {
+    await fsp.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * The journal of the most recent run that changed files, if any.
+ */
+export async function lastJournal(root: string): Promise<{ dir: string; journal: Journal } | undefined> {
+  const dir = (await backupDirs(root)).pop();
+  if (!dir) return undefined;
+  return { dir, journal: JSON.parse(await fsp.readFile(path.join(dir, 'journal.json'), 'utf8')) };
+}
+
+/**
+ * Restore the files of the last run to their state before it and drop
+ * its backup. A file changed again since then is left alone unless
+ * `force` is set; with any such file nothing is restored.
+ */
+export async function undoLastRun(root: string, force = false): Promise<{ journal?: Journal; outcomes: UndoOutcome[] }> {
+  const last = await lastJournal(root);
+  if (!last) return { outcomes: [] };
+  const { dir, journal } = last;
+
+  const outcomes: UndoOutcome[] = [];
+  for (const entry of journal.files) {
+    const now = existsSync(entry.file) ? sha256(await fsp.readFile(entry.file, 'utf8')) : undefined;
+    // An open journal is from a run that never finished: its end state is unknown
+    const moved = journal.status === 'committed' && now !== entry.after;
+    outcomes.push({ file: entry.file, status: moved && !force ? 'changed-since' : entry.backup ? 'restored' : 'removed' });
+  }
+  if (outcomes.some(o => o.status === 'changed-since')) return { journal, outcomes };
+
+  const staging = path.join(path.resolve(root), STATE_DIR, `staging-undo-${process.pid}`);
+  for (const entry of journal.files) {
+    if (entry.backup) {
+      await atomicWrite(entry.file, await fsp.readFile(path.join(dir, 'files', entry.backup), 'utf8'), staging, entry.backup);
+    } else {
+      await fsp.rm(entry.file, { force: true });
+    }
+  }
+  await fsp.rm(staging, { recursive: true, force: true });
+  await fsp.rm(dir, { recursive: true, force: true });
+  return { journal, outcomes };
+}
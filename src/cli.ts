@@ -2,197 +2,556 @@
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import chalk from 'chalk';
+import path from 'node:path';
 import { buildPrompt }           from './app/prompt/builder.js';
 import { compileAndRun }     from './app/compiler/build.js';
-import { run as runFull }    from './app/runner.js';
+import { run as runFull, withDryRunCopy } from './app/runner.js';
+import { runAll }            from './app/batch.js';
 import { fsx }               from './app/utils/fsx.js';
-import { fetch as llmFetch } from './app/llm/client.js';
+import { fetch as llmFetch, configureLlm } from './app/llm/client.js';
+import { PROVIDER_KINDS, ProviderKind } from './app/llm/provider.js';
+import { loadConfig, compilerFlags, formatConfig, ResolvedConfig, ProjectConfig } from './app/config/projectConfig.js';
+import { projectConstraints, apiSummary, Middleware } from './app/prompt/middleware.js';
+import { loadMiddlewares } from './app/prompt/loadMiddleware.js';
+import { MiddlewareTrace } from './app/prompt/builder.js';
+import { BuildSettings } from './app/compiler/build.js';
+import { findCompileDb, effectiveFlags, includeSearchPath } from './app/compiler/compileDb.js';
+import { extractApi, Analyzer } from './app/analysis/extractApi.js';
+import { renderApiSummary, ApiModel } from './app/analysis/apiModel.js';
+import { findMockSpecs, mockContext } from './app/analysis/mocks.js';
+import { TEST_STYLES, TestStyle } from './app/prompt/schema.js';
+import { FRAMEWORK_KINDS, FrameworkSetting, resolveFramework } from './app/compiler/framework.js';
+import { RunReport, ReportFiles, writeReports } from './app/report.js';
 import { replaceWithTestExtension } from './app/utils/fileExtensions.js';
+import { log, configureLogger, LOG_LEVELS, LOG_FORMATS, LogFormat } from './app/utils/logger.js';
+
+// Effective configuration, resolved once per invocation by the middleware below
+let project: ResolvedConfig;
+
+function buildSettings(config: ProjectConfig): BuildSettings {
+  return {
+    compiler  : config.compiler,
+    gppFlags  : compilerFlags(config),
+    testTarget: config.cmakeTarget,
+    buildDir  : config.buildDir,
+    cmakeRunner: config.cmakeRunner,
+    registerTests: config.registerTests,
+    compileCommands: findCompileDb(config.root, config.buildDir, config.compileCommands),
+    systemIncludeDirs: config.systemIncludeDirs,
+    unresolvedIncludes: config.unresolvedIncludes,
+    gmock     : config.mocks.enabled,
+    framework : config.framework
+  };
+}
+
+/**
+ * Prompt middleware from the project: `prompt.constraints`, then the
+ * modules and fragments listed in `prompt.middlewares`.
+ */
+async function projectMiddlewares(): Promise<Middleware[]> {
+  return [
+    projectConstraints(project.config.prompt.constraints),
+    ...await loadMiddlewares(project.config.root, project.config.prompt.middlewares)
+  ];
+}
+
+/**
+ * API model of `src` with the analyzer and compile flags of the project.
+ */
+async function analyzeSource(src: string, signal?: AbortSignal, analyzer: Analyzer = project.config.analyzer) {
+  const build = buildSettings(project.config);
+  return extractApi(src, {
+    analyzer,
+    flags   : await effectiveFlags(path.resolve(project.config.root, src), build.compileCommands, build.gppFlags ?? []),
+    root    : project.config.root,
+    signal
+  });
+}
+
+/**
+ * Mocks the prompt would show for `src` when mocks are enabled and the
+ * tests use Google Test; nothing is written (`run` writes the mocks header).
+ */
+async function previewMocks(src: string, testFile: string, api: ApiModel, testText?: string) {
+  if (!project.config.mocks.enabled || resolveFramework(project.config.framework, testText).kind !== 'gtest') return undefined;
+  const build = buildSettings(project.config);
+  const includeDirs = await includeSearchPath(project.config.root, src, build.compileCommands, build.gppFlags ?? []);
+  const specs = await findMockSpecs(api, project.config.root, includeDirs);
+  return specs.length ? mockContext(specs, path.join(path.dirname(testFile), project.config.mocks.header), testFile) : undefined;
+}
+
+/**
+ * Write the `--report` / `--junit` files of the runs, if asked for.
+ */
+async function saveReports(reports: RunReport[], files: ReportFiles) {
+  if (!files.json && !files.junit) return;
+  await writeReports(reports, files, project.config.root);
+  for (const file of [files.json, files.junit]) {
+    if (file) log.info(chalk.gray(`📝 Report written to ${file}`));
+  }
+}
 
 const cli = yargs(hideBin(process.argv))
   .scriptName('gen-unit-test')
+  .option('provider', { type:'string', choices: PROVIDER_KINDS, desc:'LLM backend (default: ollama)' })
+  .option('model',    { type:'string', desc:'Model name (default depends on provider)' })
+  .option('host',     { type:'string', desc:'Provider base URL, or recordings file/dir for replay' })
+  .option('record',   { type:'string', desc:'Directory to record LLM replies into (for later replay)' })
+  .option('quiet',    { alias:'q', type:'boolean', default:false, desc:'Log errors and warnings only' })
+  .option('verbose',  { alias:'v', type:'count', desc:'Log more detail: -v debug, -vv trace' })
+  .option('logFormat',{ type:'string', choices: LOG_FORMATS, default:'text', desc:'Log as colored text or one JSON object per line (logs go to stderr)' })
+  .middleware(async argv => {
+    configureLogger({
+      level : argv.quiet ? 'warn' : LOG_LEVELS[Math.min(2 + argv.verbose, LOG_LEVELS.length - 1)],
+      format: argv.logFormat as LogFormat
+    });
+    project = await loadConfig({
+      root          : argv.root as string | undefined,
+      gpp           : argv.gpp as boolean | undefined,
+      analyzer      : argv.analyzer as Analyzer | undefined,
+      testStyles    : argv.testStyles as TestStyle[] | undefined,
+      mocks         : { enabled: argv.mocks as boolean | undefined },
+      framework     : argv.framework as FrameworkSetting | undefined,
+      coverage: {
+        enabled   : argv.coverage as boolean | undefined,
+        lineTarget: argv.coverageTarget as number | undefined,
+        maxRounds : argv.maxRounds as number | undefined
+      },
+      maxFixAttempts: (argv.maxFixAttempts ?? argv.maxAttempts) as number | undefined,
+      regenerateRounds: argv.regenerateRounds as number | undefined,
+      llm: {
+        provider: argv.provider as ProviderKind | undefined,
+        model   : argv.model,
+        host    : argv.host
+      }
+    });
+    configureLlm(project.config.llm, argv.record);
+  })
   .command('prompt',  'print a prompt for the LLM',  y => y
       .option('src', { type: 'string', demandOption: true })
-      .option('root',{ type: 'string', default: '.' })
-      .option('testFile',{ type: 'string' }),
+      .option('root',{ type: 'string', desc: 'Project root (default: config file dir or .)' })
+      .option('testFile',{ type: 'string' })
+      .option('explain', { type: 'boolean', default: false, desc: 'Show which middleware changed which prompt section' })
+      .option('analyzer', { type:'string', choices:['auto', 'clang', 'fallback'] as const, desc:'API summary from the clang AST or the built-in parser (default: fallback, or analyzer from the config file)' })
+      .option('testStyles', { type:'string', array:true, choices:TEST_STYLES, desc:'Test styles the LLM may use besides TEST (default: plain)' })
+      .option('mocks', { type:'boolean', desc:'Generate GoogleMock classes for dependencies and let tests use them (default: false)' })
+      .option('framework', { type:'string', choices:['auto', ...FRAMEWORK_KINDS] as const, desc:'Test framework for new test files; existing ones keep theirs (default: auto)' }),
     async argv => {
-      console.log(chalk.blue('🔍 Building prompt for LLM...'));
-      console.log(chalk.gray(`📁 Source file: ${argv.src}`));
-      console.log(chalk.gray(`📁 Root directory: ${argv.root}`));
+      log.info(chalk.blue('🔍 Building prompt for LLM...'));
+      log.debug(chalk.gray(`📁 Source file: ${argv.src}`));
+      log.debug(chalk.gray(`📁 Root directory: ${project.config.root}`));
       
       const src = await fsx.read(argv.src);
-      console.log(chalk.green('✅ Source file read successfully'));
+      log.info(chalk.green('✅ Source file read successfully'));
       
       let testFile = argv.testFile;
-      if (!testFile) testFile = replaceWithTestExtension(argv.src);
-      console.log(chalk.gray(`📝 Test file: ${testFile}`));
+      if (!testFile) testFile = replaceWithTestExtension(argv.src, project.config.testNaming);
+      log.debug(chalk.gray(`📝 Test file: ${testFile}`));
       
       const testText = await fsx.readIfExists(testFile);
       if (testText) {
-        console.log(chalk.green('✅ Existing test file found'));
+        log.info(chalk.green('✅ Existing test file found'));
       } else {
-        console.log(chalk.yellow('⚠️  No existing test file found'));
+        log.warn(chalk.yellow('⚠️  No existing test file found'));
       }
       
+      const trace: MiddlewareTrace[] = [];
+      // A quick preview: clang++ only when asked for, the built-in parser otherwise
+      const api = await analyzeSource(argv.src, undefined, project.sources.analyzer === 'default' ? 'fallback' : project.config.analyzer);
       const prompt = buildPrompt({
         srcPath     : argv.src,
         srcText     : src,
-        testText    : testText
+        testText    : testText,
+        middlewares : [...await projectMiddlewares(), apiSummary(api)],
+        ctx         : {
+          styles   : project.config.testStyles,
+          mocks    : await previewMocks(argv.src, testFile, api, testText),
+          framework: resolveFramework(project.config.framework, testText).kind
+        },
+        trace
       });
       
-      console.log(chalk.blue('📤 Generated prompt:'));
-      console.log(chalk.cyan('─'.repeat(50)));
+      log.info(chalk.blue('📤 Generated prompt:'));
+      log.info(chalk.cyan('─'.repeat(50)));
       console.log(prompt);
-      console.log(chalk.cyan('─'.repeat(50)));
+      log.info(chalk.cyan('─'.repeat(50)));
+
+      if (argv.explain) {
+        log.info(chalk.blue('🧩 Middleware chain:'));
+        const width = Math.max(...trace.map(t => t.label.length));
+        trace.forEach((t, i) => {
+          const changes = t.changes.map(c => {
+            const delta = c.after - c.before;
+            return `${c.section} ${delta >= 0 ? '+' : ''}${delta} chars`;
+          });
+          const effect = t.replacedBy ? `replaced by ${t.replacedBy}` : changes.join(', ') || 'no change';
+          const line = `  ${String(i + 1).padStart(2)}. ${t.label.padEnd(width)}  ${effect}`;
+          log.info(changes.length ? line : chalk.gray(line));
+        });
+      }
     })
 
   .command('llm', 'send prompt, show raw reply', y => y
       .option('src',{ type:'string', demandOption:true })
-      .option('root',{ type:'string', default:'.' })
-      .option('testFile',{ type: 'string' }),
+      .option('root',{ type:'string', desc: 'Project root (default: config file dir or .)' })
+      .option('testFile',{ type: 'string' })
+      .option('testStyles', { type:'string', array:true, choices:TEST_STYLES, desc:'Test styles the LLM may use besides TEST (default: plain)' })
+      .option('mocks', { type:'boolean', desc:'Generate GoogleMock classes for dependencies and let tests use them (default: false)' })
+      .option('framework', { type:'string', choices:['auto', ...FRAMEWORK_KINDS] as const, desc:'Test framework for new test files; existing ones keep theirs (default: auto)' }),
     async argv => {
-      console.log(chalk.blue('🚀 Starting LLM request...'));
-      console.log(chalk.gray(`📁 Source file: ${argv.src}`));
-      console.log(chalk.gray(`📁 Root directory: ${argv.root}`));
+      log.info(chalk.blue('🚀 Starting LLM request...'));
+      log.debug(chalk.gray(`📁 Source file: ${argv.src}`));
+      log.debug(chalk.gray(`📁 Root directory: ${project.config.root}`));
       
       const ac = new AbortController();
       process.on('SIGINT', () => ac.abort());
       
       const src = await fsx.read(argv.src);
-      console.log(chalk.green('✅ Source file read successfully'));
+      log.info(chalk.green('✅ Source file read successfully'));
       
       let testFile = argv.testFile;
-      if (!testFile) testFile = replaceWithTestExtension(argv.src);
-      console.log(chalk.gray(`📝 Test file: ${testFile}`));
+      if (!testFile) testFile = replaceWithTestExtension(argv.src, project.config.testNaming);
+      log.debug(chalk.gray(`📝 Test file: ${testFile}`));
       
       const testText = await fsx.readIfExists(testFile);
       if (testText) {
-        console.log(chalk.green('✅ Existing test file found'));
+        log.info(chalk.green('✅ Existing test file found'));
       } else {
-        console.log(chalk.yellow('⚠️  No existing test file found'));
+        log.warn(chalk.yellow('⚠️  No existing test file found'));
       }
       
-      console.log(chalk.blue('🔨 Building prompt...'));
+      log.info(chalk.blue('🔨 Building prompt...'));
+      const api = await analyzeSource(argv.src, ac.signal);
       const prompt = buildPrompt({ 
         srcPath     : argv.src,
         srcText     : src,
         testText    : testText,
         testPath    : testFile,
-        root        : argv.root
+        root        : project.config.root,
+        middlewares : [...await projectMiddlewares(), apiSummary(api)],
+        ctx         : {
+          styles   : project.config.testStyles,
+          mocks    : await previewMocks(argv.src, testFile, api, testText),
+          framework: resolveFramework(project.config.framework, testText).kind
+        }
       });
-      console.log(chalk.green('✅ Prompt built successfully'));
+      log.info(chalk.green('✅ Prompt built successfully'));
       
-      console.log(chalk.blue('🤖 Sending request to LLM...'));
-      const reply  = await llmFetch(prompt, ac.signal);
-      console.log(chalk.green('✅ LLM response received'));
+      log.info(chalk.blue('🤖 Sending request to LLM...'));
+      const reply  = await llmFetch(prompt, ac.signal, project.config.testStyles);
+      log.info(chalk.green('✅ LLM response received'));
       
-      console.log(chalk.blue('📥 Raw LLM reply:'));
-      console.log(chalk.cyan('─'.repeat(50)));
+      log.info(chalk.blue('📥 Raw LLM reply:'));
+      log.info(chalk.cyan('─'.repeat(50)));
       console.log(reply);
-      console.log(chalk.cyan('─'.repeat(50)));
+      log.info(chalk.cyan('─'.repeat(50)));
+    })
+
+  .command('analyze', 'list the testable API of a source file and its header', y => y
+      .option('src', { type:'string', demandOption:true })
+      .option('root',{ type:'string', desc: 'Project root (default: config file dir or .)' })
+      .option('analyzer', { type:'string', choices:['auto', 'clang', 'fallback'] as const, desc:'clang AST or the built-in parser (default: auto)' })
+      .option('json', { type:'boolean', default:false, desc:'Print the API model as JSON' }),
+    async argv => {
+      const api = await analyzeSource(argv.src);
+      if (argv.json) {
+        console.log(JSON.stringify(api, null, 2));
+        return;
+      }
+      log.debug(chalk.gray(`🔬 ${api.files.join(', ')} (${api.extractor})`));
+      const summary = renderApiSummary(api);
+      if (summary) console.log(summary);
+      else log.warn(chalk.yellow('⚠️  No API found'));
     })
 
-  .command('compile', 'build & run Google-Test target', y => y
-      .option('root',   { type:'string', default:'.' })
+  .command('compile', 'build & run a test target (Google Test, Catch2 or doctest)', y => y
+      .option('root',   { type:'string', desc: 'Project root (default: config file dir or .)' })
       .option('testFile', { type:'string', demandOption: true })
       .option('srcFile', { type:'string', desc: 'Source file to compile with test file (for g++ mode)' })
-      .option('gppFlags', { type:'array', desc: 'Custom g++ flags (when using g++ mode)' }),
+      .option('gppFlags', { type:'array', desc: 'Custom g++ flags (when using g++ mode)' })
+      .option('gpp', { type:'boolean', desc:'Build with g++ instead of the CMake project (default: true)' }),
     async argv => {
-      console.log(chalk.blue('🔨 Starting compilation and test run...'));
-      console.log(chalk.gray(`📁 Root directory: ${argv.root}`));
-      console.log(chalk.gray(`🎯 Test target: ${argv.testFile}`));
+      log.info(chalk.blue('🔨 Starting compilation and test run...'));
+      log.debug(chalk.gray(`📁 Root directory: ${project.config.root}`));
+      log.debug(chalk.gray(`🎯 Test target: ${argv.testFile}`));
       if (argv.srcFile) {
-        console.log(chalk.gray(`📄 Source file: ${argv.srcFile}`));
+        log.debug(chalk.gray(`📄 Source file: ${argv.srcFile}`));
       }
       
       const ac = new AbortController();
       process.on('SIGINT', () => ac.abort());
       
-      console.log(chalk.blue('⚙️  Building project...'));
+      log.info(chalk.blue('⚙️  Building project...'));
+      const build = buildSettings(project.config);
       const ok = await compileAndRun({ 
-        root: argv.root, 
+        ...build,
+        root: project.config.root, 
         testFile: argv.testFile,
         srcFile: argv.srcFile,
-        gppFlags: argv.gppFlags as string[] | undefined,
-        mode: argv.srcFile ? 'g++' : undefined
+        gppFlags: (argv.gppFlags as string[] | undefined) ?? build.gppFlags,
+        mode: project.config.gpp ? 'g++' : 'cmake'
       }, ac.signal);
       
       if (ok.success) {
-        console.log(chalk.green('🎉 PASS - All tests passed!'));
+        log.info(chalk.green('🎉 PASS - All tests passed!'));
       } else {
-        console.log(chalk.red('❌ FAIL - Tests failed or compilation error'));
+        log.error(chalk.red('❌ FAIL - Tests failed or compilation error'));
       }
     })
 
   .command('run', 'full test generation (default)', y => y
       .option('src',     { type:'string', demandOption:true })
-      .option('root',    { type:'string', default:'.' })
-      .option('bypassValidation', { type:'boolean', default:true, desc:'Skip validation and directly write tests' })
+      .option('root',    { type:'string', desc: 'Project root (default: config file dir or .)' })
+      .option('bypassValidation', { type:'boolean', desc:'Skip validation and directly write tests (default: true, false with --interactive)' })
       .option('enableAutoFix', { type:'boolean', default:true, desc:'Enable automatic test fixing when compilation fails' })
-      .option('maxFixAttempts', { type:'number', default:3, desc:'Maximum number of fix attempts' })
-      .option('gpp', { type:'boolean', default:true, desc:'Use g++ to build and run only the generated test file' }),
+      .option('maxFixAttempts', { type:'number', desc:'Maximum number of fix attempts (default: 3)' })
+      .option('gpp', { type:'boolean', desc:'Use g++ to build and run only the generated test file (default: true)' })
+      .option('regression', { type:'boolean', default:false, desc:'Re-run the whole test file after validating each new test in isolation' })
+      .option('coverage', { type:'boolean', desc:'Measure coverage and generate in rounds until the target is met (default: false)' })
+      .option('coverageTarget', { type:'number', desc:'Line coverage target in percent (default: 80)' })
+      .option('maxRounds', { type:'number', desc:'Maximum number of coverage rounds (default: 3)' })
+      .option('regenerateRounds', { type:'number', desc:'Times failed tests are regenerated with their errors in the prompt (default: 1)' })
+      .option('testStyles', { type:'string', array:true, choices:TEST_STYLES, desc:'Test styles the LLM may use besides TEST (default: plain)' })
+      .option('mocks', { type:'boolean', desc:'Generate GoogleMock classes for dependencies and let tests use them (default: false)' })
+      .option('framework', { type:'string', choices:['auto', ...FRAMEWORK_KINDS] as const, desc:'Test framework for new test files; existing ones keep theirs (default: auto)' })
+      .option('dryRun', { type:'boolean', default:false, desc:'Work on a scratch copy and print the diff instead of writing the test file' })
+      .option('patch', { type:'string', desc:'Save the dry-run diff to this file for `apply` (implies --dryRun)' })
+      .option('interactive', { type:'boolean', default:false, desc:'Review each generated test: accept, reject, edit in $EDITOR or regenerate' })
+      .option('report', { type:'string', desc:'Write a JSON report of the run (tests, verdicts, diagnostics, timings) to this file' })
+      .option('junit', { type:'string', desc:'Write the generated tests as JUnit XML to this file' })
+      .check(argv => {
+        if (argv.interactive && argv.bypassValidation) {
+          throw new Error('--interactive shows each test with its validation verdict, it cannot be used with --bypassValidation');
+        }
+        return true;
+      }),
       async argv => {
-      console.log(chalk.blue('🚀 Starting full test generation workflow...'));
-      console.log(chalk.gray(`📁 Source file: ${argv.src}`));
-      console.log(chalk.gray(`📁 Root directory: ${argv.root}`));
-      console.log(chalk.gray(`⚡ Bypass validation: ${argv.bypassValidation}`));
-      console.log(chalk.gray(`🔧 Auto-fix enabled: ${argv.enableAutoFix}`));
-      console.log(chalk.gray(`🔄 Max fix attempts: ${argv.maxFixAttempts}`));
-      console.log(chalk.gray(`🛠️  g++ single file mode: ${argv.gpp}`));
+      // The review is about tests that were built and run
+      const bypassValidation = argv.bypassValidation ?? !argv.interactive;
+      log.info(chalk.blue('🚀 Starting full test generation workflow...'));
+      log.debug(chalk.gray(`📁 Source file: ${argv.src}`));
+      log.debug(chalk.gray(`📁 Root directory: ${project.config.root}`));
+      log.debug(chalk.gray(`⚡ Bypass validation: ${bypassValidation}`));
+      log.debug(chalk.gray(`🔧 Auto-fix enabled: ${argv.enableAutoFix}`));
+      log.debug(chalk.gray(`🔄 Max fix attempts: ${project.config.maxFixAttempts}`));
+      log.debug(chalk.gray(`🛠️  g++ single file mode: ${project.config.gpp}`));
+      if (project.config.coverage.enabled) {
+        log.debug(chalk.gray(`📈 Coverage target: ${project.config.coverage.lineTarget}% lines, up to ${project.config.coverage.maxRounds} round(s)`));
+      }
       const ac = new AbortController();
       process.on('SIGINT', () => ac.abort());
+      const reports: RunReport[] = [];
       
-      await runFull({
-        srcFile : argv.src,
-        testFile: replaceWithTestExtension(argv.src),
-        root    : argv.root,
-        bypassValidation: argv.bypassValidation,
-        enableAutoFix: argv.enableAutoFix,
-        maxFixAttempts: argv.maxFixAttempts,
-        gpp: argv.gpp
-      }, ac.signal);
+      try {
+        await runFull({
+          srcFile : argv.src,
+          testFile: replaceWithTestExtension(argv.src, project.config.testNaming),
+          root    : project.config.root,
+          bypassValidation,
+          enableAutoFix: argv.enableAutoFix,
+          regression: argv.regression,
+          maxFixAttempts: project.config.maxFixAttempts,
+          regenerateRounds: project.config.regenerateRounds,
+          gpp: project.config.gpp,
+          build: buildSettings(project.config),
+          testNaming: project.config.testNaming,
+          analyzer: project.config.analyzer,
+          testStyles: project.config.testStyles,
+          mocks: project.config.mocks.enabled ? { header: project.config.mocks.header } : undefined,
+          coverage: project.config.coverage.enabled ? project.config.coverage : undefined,
+          middlewares: await projectMiddlewares(),
+          dryRun: argv.dryRun || argv.patch ? { patchFile: argv.patch } : undefined,
+          interactive: argv.interactive,
+          reports
+        }, ac.signal);
+      } finally {
+        // A failed run is in the reports too, with its error
+        await saveReports(reports, { json: argv.report, junit: argv.junit });
+      }
+    })
+
+  .command('run-all <inputs..>', 'generate tests for every source in the given files, directories or globs', y => y
+      .positional('inputs', { type:'string', array:true, demandOption:true, desc:'Source files, directories or glob patterns' })
+      .option('root',    { type:'string', desc: 'Project root (default: config file dir or .)' })
+      .option('concurrency', { type:'number', default:1, desc:'Number of files processed in parallel' })
+      .option('bypassValidation', { type:'boolean', default:true, desc:'Skip validation and directly write tests' })
+      .option('enableAutoFix', { type:'boolean', default:true, desc:'Enable automatic test fixing when compilation fails' })
+      .option('maxFixAttempts', { type:'number', desc:'Maximum number of fix attempts (default: 3)' })
+      .option('gpp', { type:'boolean', desc:'Use g++ to build and run only the generated test file (default: true)' })
+      .option('regression', { type:'boolean', default:false, desc:'Re-run the whole test file after validating each new test in isolation' })
+      .option('coverage', { type:'boolean', desc:'Measure coverage and generate in rounds until the target is met (default: false)' })
+      .option('coverageTarget', { type:'number', desc:'Line coverage target in percent (default: 80)' })
+      .option('maxRounds', { type:'number', desc:'Maximum number of coverage rounds (default: 3)' })
+      .option('regenerateRounds', { type:'number', desc:'Times failed tests are regenerated with their errors in the prompt (default: 1)' })
+      .option('testStyles', { type:'string', array:true, choices:TEST_STYLES, desc:'Test styles the LLM may use besides TEST (default: plain)' })
+      .option('mocks', { type:'boolean', desc:'Generate GoogleMock classes for dependencies and let tests use them (default: false)' })
+      .option('framework', { type:'string', choices:['auto', ...FRAMEWORK_KINDS] as const, desc:'Test framework for new test files; existing ones keep theirs (default: auto)' })
+      .option('report', { type:'string', desc:'Write a JSON report of the run (tests, verdicts, diagnostics, timings) to this file' })
+      .option('junit', { type:'string', desc:'Write the generated tests as JUnit XML to this file' }),
+      async argv => {
+      log.info(chalk.blue('🚀 Starting batch test generation...'));
+      log.debug(chalk.gray(`📁 Inputs: ${argv.inputs.join(', ')}`));
+      log.debug(chalk.gray(`📁 Root directory: ${project.config.root}`));
+      const ac = new AbortController();
+      process.on('SIGINT', () => ac.abort());
+      const reports: RunReport[] = [];
+
+      try {
+        const rows = await runAll({
+          inputs  : argv.inputs,
+          concurrency: argv.concurrency,
+          root    : project.config.root,
+          bypassValidation: argv.bypassValidation,
+          enableAutoFix: argv.enableAutoFix,
+          regression: argv.regression,
+          maxFixAttempts: project.config.maxFixAttempts,
+          regenerateRounds: project.config.regenerateRounds,
+          gpp: project.config.gpp,
+          build: buildSettings(project.config),
+          testNaming: project.config.testNaming,
+          analyzer: project.config.analyzer,
+          testStyles: project.config.testStyles,
+          mocks: project.config.mocks.enabled ? { header: project.config.mocks.header } : undefined,
+          coverage: project.config.coverage.enabled ? project.config.coverage : undefined,
+          middlewares: await projectMiddlewares(),
+          reports
+        }, ac.signal);
+        if (rows.some(r => r.error || r.failed)) process.exitCode = 1;
+      } finally {
+        await saveReports(reports, { json: argv.report, junit: argv.junit });
+      }
     })
 
     .command('fix', 'attempt to fix a failing test file', y => y
     .option('test',    { type:'string', demandOption:true, desc:'Path to the test file to fix' })
     .option('src',     { type:'string', demandOption:true, desc:'Path to the source file being tested' })
-    .option('root',    { type:'string', default:'.', desc:'Project root directory' })
-          .option('maxAttempts', { type:'number', default:3, desc:'Maximum number of fix attempts' }),
+    .option('root',    { type:'string', desc:'Project root directory' })
+    .option('maxAttempts', { type:'number', desc:'Maximum number of fix attempts (default: 3)' })
+    .option('gpp', { type:'boolean', desc:'Use g++ to build and run only the test file (default: false, i.e. CMake, unless the config file sets gpp)' })
+    .option('dryRun', { type:'boolean', default:false, desc:'Print the fix as a diff instead of writing the test file' })
+    .option('patch', { type:'string', desc:'Save the fix as a patch file for `apply` (implies --dryRun)' }),
       async argv => {
-      console.log(chalk.blue('🔧 Starting test file fixing...'));
-      console.log(chalk.gray(`📝 Test file: ${argv.test}`));
-      console.log(chalk.gray(`📝 Source file: ${argv.src}`));
-      console.log(chalk.gray(`📁 Root directory: ${argv.root}`));
-      console.log(chalk.gray(`🔄 Max attempts: ${argv.maxAttempts}`));
+      log.info(chalk.blue('🔧 Starting test file fixing...'));
+      log.debug(chalk.gray(`📝 Test file: ${argv.test}`));
+      log.debug(chalk.gray(`📝 Source file: ${argv.src}`));
+      log.debug(chalk.gray(`📁 Root directory: ${project.config.root}`));
+      log.debug(chalk.gray(`🔄 Max attempts: ${project.config.maxFixAttempts}`));
       const ac = new AbortController();
       process.on('SIGINT', () => ac.abort());
       
       const { fixTestFile } = await import('./app/utils/testFixer.js');
+      const { Transaction } = await import('./app/utils/transaction.js');
+      await Transaction.run(project.config.root, 'fix', ac.signal, async tx => {
+        const fix = (testFile: string, gpp: boolean, build: BuildSettings) => fixTestFile({
+          testFile,
+          srcFile: argv.src,
+          root: project.config.root,
+          maxAttempts: project.config.maxFixAttempts,
+          signal: ac.signal,
+          gpp,
+          build,
+          tx
+        });
+        // A dry run fixes a copy outside the project, built with g++
+        const result = argv.dryRun || argv.patch
+          ? await withDryRunCopy(argv.test, buildSettings(project.config), tx, (copy, build) => fix(copy, true, build))
+          // `fix` builds through CMake unless g++ mode is asked for explicitly
+          : await fix(argv.test, project.sources.gpp === 'default' ? false : project.config.gpp, buildSettings(project.config));
       
-      const result = await fixTestFile({
-        testFile: argv.test,
-        srcFile: argv.src,
-        root: argv.root,
-        maxAttempts: argv.maxAttempts,
-        signal: ac.signal
-      });
-      
-      if (result.success) {
-        console.log(chalk.green(`🎉 Test file fixed successfully after ${result.attempts} attempts!`));
-        if (result.finalContent) {
-          // Write the fixed content back to the test file
-          const { fsx } = await import('./app/utils/fsx.js');
-          await fsx.write(argv.test, result.finalContent);
-          console.log(chalk.green(`✅ Fixed content written to ${argv.test}`));
-        }
-      } else {
-        console.log(chalk.red(`❌ Failed to fix test file after ${result.attempts} attempts`));
-        if (result.error) {
-          console.log(chalk.red(`Error: ${result.error}`));
+        if (result.success) {
+          log.info(chalk.green(`🎉 Test file fixed successfully after ${result.attempts} attempts!`));
+          if (result.finalContent && (argv.dryRun || argv.patch)) {
+            const { fsx } = await import('./app/utils/fsx.js');
+            const { createPatch } = await import('./app/compiler/patch.js');
+            const patch = createPatch(project.config.root, argv.test, await fsx.read(argv.test), result.finalContent);
+            if (!patch) {
+              log.info(chalk.gray(`📝 Dry run: no change to ${argv.test}`));
+            } else if (argv.patch) {
+              await fsx.write(argv.patch, patch);
+              log.info(chalk.green(`✅ Patch written to ${argv.patch} (apply it with \`apply ${argv.patch}\`)`));
+            } else {
+              log.info(chalk.blue(`📝 Dry run: changes to ${argv.test}`));
+              console.log(patch);
+            }
+          } else if (result.finalContent) {
+            // Write the fixed content back to the test file
+            await tx.write(argv.test, result.finalContent);
+            log.info(chalk.green(`✅ Fixed content written to ${argv.test}`));
+          }
+        } else {
+          log.error(chalk.red(`❌ Failed to fix test file after ${result.attempts} attempts`));
+          if (result.error) {
+            log.error(chalk.red(`Error: ${result.error}`));
+          }
         }
+      });
+    })
+
+  .command('apply <patch>', 'apply a patch saved by `run --patch` or `fix --patch`', y => y
+      .positional('patch', { type:'string', demandOption:true, desc:'Patch file to apply' })
+      .option('root', { type:'string', desc:'Project root (default: config file dir or .)' }),
+    async argv => {
+      const { fsx } = await import('./app/utils/fsx.js');
+      const { applyPatch } = await import('./app/compiler/patch.js');
+      const { Transaction } = await import('./app/utils/transaction.js');
+      log.info(chalk.blue(`🩹 Applying ${argv.patch}...`));
+      const ac = new AbortController();
+      process.on('SIGINT', () => ac.abort());
+      try {
+        await Transaction.run(project.config.root, 'apply', ac.signal, async tx => {
+          const outcomes = await applyPatch(project.config.root, await fsx.read(argv.patch), ac.signal, tx);
+          if (!outcomes.length) throw new Error(`${argv.patch} is not a patch saved by gen-unit-test`);
+          for (const o of outcomes) {
+            if (o.status === 'applied') log.info(chalk.green(`  ✅ ${o.file}`));
+            else if (o.status === 'applied-changed') log.warn(chalk.yellow(`  ⚠️  ${o.file} changed since the patch was made, applied cleanly anyway`));
+            else if (o.status === 'already-applied') log.info(chalk.gray(`  ${o.file} already has these changes`));
+            else log.error(chalk.red(`  ❌ ${o.file} changed since the patch was made and the diff no longer applies`));
+          }
+          // A file that failed after others were patched takes those back too
+          const conflicts = outcomes.filter(o => o.status === 'conflict');
+          if (conflicts.length) throw new Error(`${conflicts.length} conflict(s), patch not applied`);
+        });
+      } catch (err: unknown) {
+        log.error(chalk.red(`❌ ${err instanceof Error ? err.message : String(err)}`));
+        process.exitCode = 1;
       }
     })
 
+  .command('undo', 'restore the files changed by the last run, run-all, fix or apply', y => y
+      .option('root', { type:'string', desc:'Project root (default: config file dir or .)' })
+      .option('force', { type:'boolean', default:false, desc:'Restore files even if they changed since' }),
+    async argv => {
+      const { undoLastRun } = await import('./app/utils/transaction.js');
+      const { journal, outcomes } = await undoLastRun(project.config.root, argv.force);
+      if (!journal) {
+        log.warn(chalk.yellow('⚠️  Nothing to undo'));
+        return;
+      }
+      const unfinished = journal.status === 'open' ? ', which never finished' : '';
+      log.info(chalk.blue(`↩️  Undoing \`${journal.command}\` of ${journal.started}${unfinished}`));
+      const conflicts = outcomes.filter(o => o.status === 'changed-since');
+      for (const o of outcomes) {
+        const file = path.relative(project.config.root, o.file);
+        if (o.status === 'restored') log.info(chalk.green(`  ✅ ${file} restored`));
+        else if (o.status === 'removed') log.info(chalk.green(`  ✅ ${file} removed (it was created)`));
+        else log.error(chalk.red(`  ❌ ${file} changed since`));
+      }
+      if (conflicts.length) {
+        log.error(chalk.red(`❌ ${conflicts.length} file(s) changed since, nothing restored (--force restores them anyway)`));
+        process.exitCode = 1;
+      }
+    })
+
+  .command('config <action>', 'inspect the effective project configuration', y => y
+      .positional('action', { type:'string', choices:['print'] as const, demandOption:true })
+      .option('root', { type:'string', desc:'Project root (default: config file dir or .)' })
+      .option('gpp', { type:'boolean' })
+      .option('maxFixAttempts', { type:'number' }),
+    async () => {
+      log.info(chalk.gray(`📄 Config file: ${project.file ?? 'none (using defaults)'}`));
+      console.log(formatConfig(project));
+    })
+
   .demandCommand(1)
   .help();
 